@@ -1,12 +1,17 @@
 import React from "react";
-import { DatabaseAdapter, DbConfig, DbMemRecord, DbRecord, DbRecordRef, IdParam, IHttp, ObjEventType, ObjListener } from "./db-types";
-import { ResultSet, ResultSetError, SQLError, SQLResultSet, SQLTransaction, WebSQLDatabase } from "./sqlite-types";
-
-const dbSchemaVersion='3';
-const dbDataStructure='3';
+import { DatabaseAdapter, DbBroadcastMessage, DbChanges, DbConfig, DbDataMigration, DbExpiredRecordKey, DbMemRecord, DbOutboxErrorType, DbPage, DbPageResult, DbQuery, DbRecord, DbRecordKey, DbRecordRef, DbStorageEngine, DbSweepResult, IBroadcastChannel, IdParam, IHttp, IRealtimeSource, MutationEventType, MutationListener, MutationType, NeverExpires, ObjEventType, ObjListener, PageEndPointBuilder, PendingMutation, RealtimeMessage } from "./db-types";
+import SqliteStorageEngine from "./SqliteStorageEngine";
 
 const toKey=(collection:string,id:string|number)=>collection+':'+id;
 
+const toSyncKey=(deps:any[])=>{
+    let key='';
+    for(const k of deps){
+        key+='::'+k;
+    }
+    return key;
+}
+
 const defaultConfig:Required<DbConfig>={
     databaseName:'client-db.db',
     crudPrefix:'',
@@ -15,7 +20,77 @@ const defaultConfig:Required<DbConfig>={
     primaryKeyMap:null,
     endPointMap:{},
     collectionRelations:[],
-    defaultTTLMinutes:60*24//one day
+    defaultTTLMinutes:60*24,//one day
+    outboxRetryDelayMs:1000,
+    outboxMaxRetryDelayMs:1000*60*5,
+    outboxMaxAttempts:0,
+    outboxErrorType:null,
+    staleWhileRevalidate:false,
+    staleWhileRevalidateMap:null,
+    ttlMap:null,
+    memCacheMaxEntries:0,
+    memCacheMaxBytes:0,
+    sweepIntervalMinutes:0,
+    sweepExpiredGraceMinutes:0,
+    maxRecords:0,
+    maxDbBytes:0,
+    vacuumThreshold:500,
+    dataMigrations:[],
+    jsonIndexes:null,
+    syncCollections:null,
+    syncIntervalMinutes:5,
+    batchCollections:null,
+    retryPolicy:null,
+    offlineFallback:false
+}
+
+interface HttpGetResult<T>
+{
+    obj:T|null;
+    notModified:boolean;
+    /**
+     * TTL in minutes defined by the Cache-Control header of the response
+     */
+    ttl?:number;
+    etag:string|null;
+    lastModified:string|null;
+    /**
+     * Cache-Control no-cache. The response is stored but revalidated each time it is used
+     */
+    noCache:boolean;
+    /**
+     * Cache-Control no-store. The response is not stored
+     */
+    noStore:boolean;
+}
+
+/**
+ * An object requested by getObjAsync waiting to be loaded in a batch
+ */
+interface BatchedObjRequest
+{
+    id:string;
+    ttl?:number;
+    signal:AbortSignal;
+    resolve:(obj:any)=>void;
+    reject:(reason:any)=>void;
+}
+
+const defaultMaxBatchSize=100;
+
+interface SyncRequest
+{
+    promise:Promise<any>;
+    controller:AbortController;
+    /**
+     * Number of callers waiting for the promise that can abort
+     */
+    waiting:number;
+    /**
+     * A caller without an abort signal is waiting for the promise. The request is not aborted
+     * before it settles.
+     */
+    held:boolean;
 }
 
 interface LoadedRef{
@@ -23,6 +98,11 @@ interface LoadedRef{
     refCollection:string|null;
     id:string;
     isCollection:boolean;
+    foreignKey:string;
+    /**
+     * Ids of the records loaded into the memory cache
+     */
+    objIds:Set<string>;
 }
 
 
@@ -30,7 +110,7 @@ export default class ClientDb
 {
     private readonly http:IHttp;
 
-    private readonly memCache:{[key:string]:DbMemRecord}={}
+    private readonly memCache:MemCache;
 
     private loadedRefs:{[key:string]:LoadedRef}={}
 
@@ -38,77 +118,129 @@ export default class ClientDb
 
     private readonly listeners:ObjListener[]=[];
 
-    private readonly config:Required<DbConfig>;
+    private readonly mutationListeners:MutationListener[]=[];
 
-    private readonly openDatabase:DatabaseAdapter;
+    private readonly outboxLock:Lock=new Lock(1);
 
-    private __db:WebSQLDatabase|null=null;
-    private get db():WebSQLDatabase{
-        if(!this.__db){
-            throw new Error('ClientDb not initialized')
-        }
-        return this.__db;
-    }
+    private outboxTimer:any=null;
+
+    /**
+     * Number of network errors since a mutation was last sent. Used as the backoff attempt of
+     * network errors which are not counted by the attempts of mutations.
+     */
+    private outboxNetworkFailures=0;
+
+    private sweepTimer:any=null;
+
+    private syncTimer:any=null;
+
+    private online=true;
+
+    private realtime:IRealtimeSource|null=null;
+
+    private broadcast:IBroadcastChannel|null=null;
 
+    /**
+     * Identifies messages posted by this instance
+     */
+    private readonly instanceId=Math.random().toString(36).substring(2)+new Date().getTime().toString(36);
 
+    /**
+     * Number of subscribers by collection
+     */
+    private readonly realtimeSubscriptions:{[collection:string]:number}={};
 
-    public constructor(http:IHttp,config:DbConfig|null,openDatabase:DatabaseAdapter)
+    /**
+     * Objects waiting to be loaded in a batch by collection
+     */
+    private readonly objBatches:{[collection:string]:BatchedObjRequest[]}={};
+
+    private readonly config:Required<DbConfig>;
+
+    private readonly engine:DbStorageEngine;
+
+    /**
+     * @param storage A storage engine or a SQLite DatabaseAdapter used to create a SqliteStorageEngine
+     */
+    public constructor(http:IHttp,config:DbConfig|null,storage:DatabaseAdapter|DbStorageEngine)
     {
         this.http=http;
         this.config={...defaultConfig,...(config||{})};
-        this.openDatabase=openDatabase;
+        this.engine=typeof storage === 'function'?new SqliteStorageEngine(storage):storage;
+        this.memCache=new MemCache(
+            this.config.memCacheMaxEntries,
+            this.config.memCacheMaxBytes,
+            record=>this.onMemCacheEvict(record));
     }
 
     public async initAsync()
     {
-        this.__db=this.openDatabase(this.config);
+        await this.engine.initAsync(this.config);
 
-        await this.execAsync(`
-            CREATE TABLE IF NOT EXISTS "settings"(
-                "name" VARCHAR(50) NOT NULL,
-                "value" TEXT NOT NULL
-            )
-        `);
+        await this.runDataMigrationsAsync();
 
-        const committed=await this.getSettingAsync('settingsCommitted');
-        if(committed!=='1'){
-            await this.execAsync('DELETE FROM "settings"');
-        }
+        this.scheduleOutboxReplay(0);
+        this.scheduleSweep();
+        this.scheduleSync(0);
+    }
 
-        const sv=await this.getSettingAsync('dbSchemaVersion');
-        if(sv!==dbSchemaVersion){
-            console.debug(`Updating ClientDb dbSchemaVersion. ${sv||'(none)'} -> ${dbSchemaVersion}`)
-            await this.execAsync('DROP TABLE IF EXISTS "objs"');
+    /**
+     * Runs the data migrations defined by config.dataMigrations. The last applied version of each
+     * collection is stored in a dataVersion:{collection} setting.
+     */
+    private async runDataMigrationsAsync()
+    {
+        const byCollection:{[collection:string]:DbDataMigration[]}={};
+        for(const m of this.config.dataMigrations){
+            (byCollection[m.collection]||(byCollection[m.collection]=[])).push(m);
         }
 
-        await this.execAsync([`
-            CREATE TABLE IF NOT EXISTS "objs"(
-                "expires" INTEGER NOT NULL,
-                "collection" VARCHAR(150) NOT NULL,
-                "refCollection" VARCHAR(100) NULL,
-                "objId" INTEGER NOT NULL,
-                "obj" TEXT
-            )
-        `,
-        `
-            CREATE UNIQUE INDEX IF NOT EXISTS "objsIndex" ON "objs" ( "objId", "collection")
-        `]);
+        for(const collection in byCollection){
+            const settingName='dataVersion:'+collection;
+            const version=Number(await this.engine.getSettingAsync(settingName))||0;
+
+            const migrations=byCollection[collection]
+                .filter(m=>m.version>version)
+                .sort((a,b)=>a.version-b.version);
+            if(!migrations.length){
+                continue;
+            }
+
+            const latest=migrations[migrations.length-1].version;
 
-        const ds=await this.getSettingAsync('dbDataStructure');
-        if(ds!==dbDataStructure){
-            console.debug(`Updating ClientDb dbDataStructure. ${ds||'(none)'} -> ${dbDataStructure}`)
-            await this.execAsync('DELETE FROM "objs"');
-            await this.nonTransactionalExecAsync('VACUUM');
+            console.debug(`Running ClientDb data migrations for ${collection}. ${version} -> ${latest}`);
 
+            await this.engine.migrateCollectionAsync(collection,obj=>{
+                for(const migration of migrations){
+                    if(obj===null || obj===undefined){
+                        break;
+                    }
+                    obj=migration.migrate(obj);
+                }
+                return obj;
+            },settingName,latest.toString());
         }
+    }
 
-        // Commit settings
-        if(sv!==dbSchemaVersion || ds!==dbDataStructure){
-            await this.setSettingAsync('settingsCommitted','0');
-            await this.setSettingAsync('dbSchemaVersion',dbSchemaVersion);
-            await this.setSettingAsync('dbDataStructure',dbDataStructure);
-            await this.setSettingAsync('settingsCommitted','1');
+    /**
+     * Stops all background tasks
+     */
+    public dispose()
+    {
+        if(this.outboxTimer){
+            clearTimeout(this.outboxTimer);
+            this.outboxTimer=null;
+        }
+        if(this.sweepTimer){
+            clearTimeout(this.sweepTimer);
+            this.sweepTimer=null;
+        }
+        if(this.syncTimer){
+            clearTimeout(this.syncTimer);
+            this.syncTimer=null;
         }
+        this.setRealtimeSource(null);
+        this.setBroadcastChannel(null);
     }
 
     public getConfig():Required<DbConfig>
@@ -116,12 +248,186 @@ export default class ClientDb
         return {...this.config}
     }
 
-    private getExpires(ttl?:number)
+    /**
+     * Returns the expiration timestamp of a record. When ttl is not defined the ttl of the
+     * collection is used followed by defaultTTLMinutes. Records with a ttl of NeverExpires are
+     * given an expiration of 0.
+     * @param ttl time to live in minutes
+     */
+    private getExpires(collection:string,ttl?:number|null)
+    {
+        if(ttl===undefined || ttl===null){
+            ttl=this.config.ttlMap?.[collection];
+        }
+        if((ttl===undefined || ttl===null) && this.config.syncCollections?.[collection]){
+            ttl=NeverExpires;
+        }
+        if(ttl===undefined || ttl===null){
+            ttl=this.config.defaultTTLMinutes;
+        }
+        if(ttl===NeverExpires){
+            return 0;
+        }
+        return new Date().getTime()+ttl*60*1000;
+    }
+
+    /**
+     * Protects cached objects from being evicted from the memory cache until the returned
+     * release function is called. Used by hooks to retain the objects they display.
+     */
+    public retainObjs(collection:string,ids:IdParam[]):()=>void
+    {
+        const keys:string[]=[];
+        for(const id of ids){
+            if(id!==null && id!==undefined){
+                const key=toKey(collection,id);
+                this.memCache.retain(key);
+                keys.push(key);
+            }
+        }
+        let released=false;
+        return ()=>{
+            if(released){
+                return;
+            }
+            released=true;
+            for(const key of keys){
+                this.memCache.release(key);
+            }
+        }
+    }
+
+    /**
+     * Connects a realtime source. Messages from the source update the cache and notify listeners.
+     * The current source is disconnected. Pass null to disconnect without connecting a new source.
+     */
+    public setRealtimeSource(source:IRealtimeSource|null)
+    {
+        if(this.realtime){
+            this.realtime.disconnect();
+        }
+        this.realtime=source;
+        if(source){
+            source.connect(message=>this.applyRealtimeMessageAsync(message));
+            for(const collection in this.realtimeSubscriptions){
+                source.subscribe(collection);
+            }
+        }
+    }
+
+    /**
+     * Relays object events to other instances sharing the same database. Events received from
+     * other instances remove the affected objects from the memory cache and notify listeners.
+     * Pass null to close the current channel.
+     */
+    public setBroadcastChannel(channel:IBroadcastChannel|null)
+    {
+        if(this.broadcast){
+            this.broadcast.close();
+        }
+        this.broadcast=channel;
+        channel?.listen(message=>this.onBroadcastMessage(message));
+    }
+
+    private onBroadcastMessage(message:DbBroadcastMessage)
+    {
+        if(message.source===this.instanceId){
+            return;
+        }
+        switch(message.type){
+
+            case 'resetAll':
+            case 'clearAll':
+                this.loadedRefs={};
+                this.memCache.clear();
+                break;
+
+            case 'resetCollection':
+                this.forgetCollection(message.collection);
+                break;
+
+            default:
+                // the record is reloaded from the shared database when next requested
+                this.forgetRecord(message.collection,message.id,message.includeRefs);
+                break;
+        }
+        this.notifyListeners(message.type,message.collection,message.id,message.obj,message.includeRefs);
+    }
+
+    /**
+     * Subscribes to realtime messages of a collection. Subscriptions are counted and the
+     * realtime source unsubscribes once all subscribers have released their subscription.
+     * @returns A function that releases the subscription
+     */
+    public subscribeCollection(collection:string):()=>void
+    {
+        const count=this.realtimeSubscriptions[collection]||0;
+        this.realtimeSubscriptions[collection]=count+1;
+        if(!count){
+            this.realtime?.subscribe(collection);
+        }
+        let released=false;
+        return ()=>{
+            if(released){
+                return;
+            }
+            released=true;
+            const remaining=this.realtimeSubscriptions[collection]-1;
+            if(remaining>0){
+                this.realtimeSubscriptions[collection]=remaining;
+            }else{
+                delete this.realtimeSubscriptions[collection];
+                this.realtime?.unsubscribe(collection);
+            }
+        }
+    }
+
+    /**
+     * Applies a message received from the realtime source to the cache
+     */
+    public async applyRealtimeMessageAsync(message:RealtimeMessage):Promise<void>
+    {
+        try{
+            switch(message.type){
+
+                case 'set':
+                    if(message.obj){
+                        await this.setAsync(message.collection,message.obj);
+                    }else{
+                        await this.removeRecordAsync(message.collection,message.id,false,'reset');
+                    }
+                    break;
+
+                case 'delete':
+                    await this.removeRecordAsync(message.collection,message.id,false,'delete');
+                    break;
+
+                case 'resetCollection':
+                    await this.removeAllRecordsAsync(message.collection);
+                    break;
+
+                default:
+                    console.warn('Unknown ClientDb realtime message',message);
+                    break;
+            }
+        }catch(ex){
+            console.error('ClientDb realtime message failed',message,ex);
+        }
+    }
+
+    private onMemCacheEvict(record:DbMemRecord)
     {
-        if(ttl===undefined){
-            ttl=this.config.defaultTTLMinutes*60*1000;
+        // loaded refs assume all matching records are in the memory cache
+        for(const e in this.loadedRefs){
+            const ld=this.loadedRefs[e];
+            if(ld.collection!==record.collection){
+                continue;
+            }
+            // matching records cached after the ref was loaded are not included in objIds
+            if(ld.objIds.has(record.objId) || String(record.obj?.[ld.foreignKey])===ld.id){
+                delete this.loadedRefs[e];
+            }
         }
-        return new Date().getTime()+ttl;
     }
 
     public addListener(listener:ObjListener)
@@ -137,10 +443,21 @@ export default class ClientDb
         }
     }
 
-    private callListeners(type:ObjEventType,collection:string,id:string,obj:any,includeRef:boolean){
+    private notifyListeners(type:ObjEventType,collection:string,id:string,obj:any,includeRef:boolean){
         for(const l of this.listeners){
             l(type,collection,id,obj,includeRef);
         }
+    }
+
+    private callListeners(type:ObjEventType,collection:string,id:string,obj:any,includeRef:boolean){
+        this.notifyListeners(type,collection,id,obj,includeRef);
+        if(this.broadcast){
+            try{
+                this.broadcast.postMessage({source:this.instanceId,type,collection,id,obj,includeRefs:includeRef});
+            }catch(ex){
+                console.warn('ClientDb broadcast failed',type,collection,id,ex);
+            }
+        }
         if(type==='reset' || type==='update' || type==='delete' || type==='resetCollection'){
             for(const r of this.config.collectionRelations){
                 if(r.depCollection===collection){
@@ -152,39 +469,6 @@ export default class ClientDb
         }
     }
 
-    private async getSettingAsync(name:string):Promise<string|null>
-    {
-        if(!name){
-            return null;
-        }
-        const r=await this.selectAsync(
-            'SELECT "value" from "settings" where "name" = ? LIMIT 1',
-            [name]);
-
-        return r.rows?.item(0)?.value||null;
-    }
-
-    private async setSettingAsync(name:string, value:string)
-    {
-        if(!name){
-            return;
-        }
-
-         const r=await this.selectAsync(
-            'SELECT "value" from "settings" where "name" = ? LIMIT 1',
-            [name]);
-
-        if(r.rows?.length){
-            await this.execAsync(
-                'UPDATE "settings" SET "value" = ? WHERE "name" = ?',
-                [value,name]);
-        }else{
-            await this.execAsync(
-                'INSERT INTO "settings" ("name","value") VALUES (?,?)',
-                [name,value]);
-        }
-    }
-
     public getPrimaryKey(collection:string,obj:any):string
     {
         if(!obj){
@@ -206,111 +490,72 @@ export default class ClientDb
     }
 
 
-    private async nonTransactionalExecAsync(sql:string,args?:any[],readOnly:boolean=false):Promise<(ResultSetError|ResultSet)[]|undefined>
-    {
-        const db=this.db;
-        if(!db.exec){
-            return;
-        }
-        return await new Promise<(ResultSetError|ResultSet)[]|undefined>((success,error)=>{
-            if(!db.exec){
-                error('exec not implemented');
-                return;
-            }
-            db.exec([{sql,args:args||[]}],readOnly,(err,r)=>{
-                if(err){
-                    error(err);
-                }else{
-                    success(r);
-                }
-            });
-        });
-    }
-
-    private execAsync(exec:((tx:SQLTransaction)=>void)|string|string[],args?:any[]|any[][]):Promise<void>
+    /**
+     * Stores records in the memory cache and storage engine then notifies listeners. Listeners
+     * are notified once all records are written and only once per record.
+     */
+    private async setRecordsAsync(evtType:'set'|'update', records:DbMemRecord[]):Promise<void>
     {
 
-        return new Promise<void>((success,error)=>{
-            this.db.transaction(tx=>{
-                if(typeof(exec) === 'string'){
-                    tx.executeSql(exec,args);
-                }else if(Array.isArray(exec)){
-                    for(let i=0;i<exec.length;i++){
-                        const sql=exec[i];
-                        if(!sql){
-                            continue;
-                        }
-                        tx.executeSql(sql),args?.[i];
-                    }
-                }else{
-                    exec(tx);
-                }
-            },
-            (err:SQLError)=>{
-                console.debug('execAsync error',exec,args)
-                error(err.message+' - code:'+err.code);
-            },
-            success)
-
-        });
-    }
-
-    private selectAsync(sql:string,args?:any[]):Promise<SQLResultSet>
-    {
-        return new Promise<SQLResultSet>((success,error)=>{
-            this.db.transaction(tx=>{
-                tx.executeSql(sql,args,
-                    (_t,result)=>{
-                        success(result);
-                    },
-                    (_t,err)=>{
-                        error(err.message+' - code:'+err.code);
-                        return true;
-                    });
-            },
-            (err:SQLError)=>{
-                error(err.message+' - code:'+err.code)
-            })
-        });
-    }
+        // When a record is included more than once the last copy wins
+        const map:{[key:string]:DbMemRecord}={};
+        const keys:string[]=[];
+        for(const record of records){
+            const key=toKey(record.collection,record.objId);
+            if(!map[key]){
+                keys.push(key);
+            }
+            map[key]=record;
+        }
 
-    private async setRecordsAsync(evtType:'set'|'update', records:DbMemRecord[]):Promise<void>
-    {
+        if(!keys.length){
+            return;
+        }
 
         const release=await this.writeLock.waitAsync();
         try{
 
-            for(const record of records){
-
-                this.memCache[toKey(record.collection,record.objId)]=record;
-
-                const c=await this.selectAsync(
-                    'SELECT COUNT(*) as "count" FROM "objs" where "objId" = ? AND "collection" = ? LIMIT 1',
-                    [record.objId,record.collection]
-                )
-
-                if(c.rows?.item(0)?.count){
-                    await this.execAsync(
-                        'UPDATE "objs" SET "expires" = ?, "obj" = ? WHERE "objId" = ? AND "collection" = ?',
-                        [record.expires,JSON.stringify(record.obj),record.objId,record.collection]
-                    )
-                }else{
-                    await this.execAsync(
-                        'INSERT INTO "objs" ("expires","collection","refCollection","objId","obj") VALUES (?,?,?,?,?)',
-                        [record.expires,record.collection,record.refCollection||'',record.objId,JSON.stringify(record.obj)]
-                    )
-                }
+            const updated=new Date().getTime();
+
+            const rows:DbRecord[]=[];
+            for(const key of keys){
+                const record=map[key];
+                const json=JSON.stringify(record.obj);
+                this.memCache.set(key,record,json?.length||0);
+                rows.push({
+                    expires:record.expires,
+                    collection:record.collection,
+                    refCollection:record.refCollection||'',
+                    objId:record.objId,
+                    obj:json,
+                    etag:record.etag||null,
+                    lastModified:record.lastModified||null,
+                    noCache:record.noCache||false,
+                    updated
+                });
             }
 
+            await this.engine.putRecordsAsync(rows);
 
         }finally{
             release();
         }
-        for(const record of records){
+        for(const key of keys){
+            const record=map[key];
             this.callListeners(evtType,record.collection,record.objId,record.obj,false);
         }
     }
 
+    /**
+     * Adds a record loaded from the database to the memory cache
+     */
+    private cacheRow(row:DbRecord):DbMemRecord
+    {
+        const record=toMemRecord(row);
+        this.memCache.set(toKey(record.collection,record.objId),record,row.obj?.length||0);
+        return record;
+    }
+
     private async removeRecordAsync(collection:string,id:IdParam,includeRefs:boolean,type:ObjEventType,defaultObj?:any):Promise<void>
     {
 
@@ -323,45 +568,81 @@ export default class ClientDb
         const release=await this.writeLock.waitAsync();
         try{
 
-            if(includeRefs){
-                await this.execAsync(
-                    'DELETE FROM "objs" WHERE "objId" = ? AND ( "collection" = ? OR "refCollection" = ? )',
-                    [id.toString(),collection,collection]
-                )
-            }else{
-                await this.execAsync(
-                    'DELETE FROM "objs" WHERE "objId" = ? AND "collection" = ?',
-                    [id.toString(),collection]
-                )
-            }
+            await this.engine.deleteRecordAsync(collection,id.toString(),includeRefs);
 
             if(!obj){
                 const cached=await this.findLocalRecordAsync(collection,id);
                 obj=cached?.obj;
             }
-            delete this.memCache[toKey(collection,id)];
+            this.forgetRecord(collection,id.toString(),includeRefs);
 
-            if(includeRefs){
-                const strId=id.toString();
-                for(const e in this.memCache){
-                    const r=this.memCache[e];
-                    if(r.refCollection===collection && r.objId===strId){
-                        delete this.memCache[e];
-                    }
+        }finally{
+            release();
+        }
+        this.callListeners(type,collection,id.toString(),obj,includeRefs);
+    }
+
+    /**
+     * Removes a record from the memory cache. If includeRefs is true ref records of the object
+     * are also removed.
+     */
+    private forgetRecord(collection:string,id:string,includeRefs:boolean)
+    {
+        this.memCache.delete(toKey(collection,id));
+
+        if(includeRefs){
+            for(const [e,r] of this.memCache.entries()){
+                if(r.refCollection===collection && r.objId===id){
+                    this.memCache.delete(e);
                 }
+            }
 
-                for(const e in this.loadedRefs){
-                    const ld=this.loadedRefs[e];
-                    if(ld.isCollection && ld.refCollection===collection && ld.id===strId){
-                        delete this.loadedRefs[e];
-                    }
+            for(const e in this.loadedRefs){
+                const ld=this.loadedRefs[e];
+                if(ld.isCollection && ld.refCollection===collection && ld.id===id){
+                    delete this.loadedRefs[e];
                 }
             }
+        }
+    }
+
+    /**
+     * Removes the records of a collection and the ref records of the collection from the memory
+     * cache
+     */
+    private forgetCollection(collection:string)
+    {
+        for(const [e,record] of this.memCache.entries()){
+            if(record.collection===collection || record.refCollection===collection){
+                this.memCache.delete(e);
+            }
+        }
+    }
+
+    /**
+     * Removes a batch of records of a collection. Listeners are notified once all records are
+     * removed.
+     */
+    private async removeRecordsAsync(collection:string,ids:string[],type:ObjEventType):Promise<void>
+    {
+        const objs:any[]=[];
+        const release=await this.writeLock.waitAsync();
+        try{
+            for(const id of ids){
+                objs.push(this.memCache.peek(toKey(collection,id))?.obj);
+            }
 
+            await this.engine.deleteRecordsAsync(ids.map(objId=>({collection,objId})));
+
+            for(const id of ids){
+                this.memCache.delete(toKey(collection,id));
+            }
         }finally{
             release();
         }
-        this.callListeners(type,collection,id.toString(),obj,includeRefs);
+        for(let i=0;i<ids.length;i++){
+            this.callListeners(type,collection,ids[i],objs[i],false);
+        }
     }
 
     private async removeAllRecordsNextFrame(collection:string)
@@ -376,16 +657,12 @@ export default class ClientDb
 
         const release=await this.writeLock.waitAsync();
         try{
-            await this.execAsync(
-                'DELETE FROM "objs" WHERE "collection" = ? OR "refCollection" = ?',
-                [collection,collection]
-            )
-
-            for(const e in this.memCache){
-                const record=this.memCache[e];
-                if(record.collection===collection || record.refCollection===collection){
-                    delete this.memCache[e];
-                }
+            await this.engine.deleteCollectionAsync(collection);
+
+            this.forgetCollection(collection);
+
+            if(await this.resetSyncCheckpointsAsync([collection])){
+                this.scheduleSync(0);
             }
 
         }finally{
@@ -409,14 +686,15 @@ export default class ClientDb
         const release=await this.writeLock.waitAsync();
         try{
 
-            await this.execAsync('DELETE FROM "objs"');
-
-            await this.nonTransactionalExecAsync('VACUUM');
+            await this.engine.clearRecordsAsync();
 
             this.loadedRefs={};
 
-            for(const e in this.memCache){
-                delete this.memCache[e];
+            this.memCache.clear();
+
+            const synced=await this.resetSyncCheckpointsAsync(Object.keys(this.config.syncCollections||{}));
+            if(synced && eventType==='resetAll'){
+                this.scheduleSync(0);
             }
 
         }finally{
@@ -426,79 +704,344 @@ export default class ClientDb
         this.callListeners(eventType,'','',undefined,false);
     }
 
-    private async findLocalRecordAsync(collection:string, id:IdParam):Promise<DbMemRecord|undefined>
+    private scheduleSweep()
     {
-        if(id===null || id===undefined){
-            return undefined;
+        if(this.sweepTimer){
+            clearTimeout(this.sweepTimer);
+            this.sweepTimer=null;
         }
+        if(this.config.sweepIntervalMinutes<=0){
+            return;
+        }
+        this.sweepTimer=setTimeout(async ()=>{
+            try{
+                await this.sweepAsync();
+            }catch(ex){
+                console.error('ClientDb sweep failed',ex);
+            }
+            if(this.sweepTimer){
+                this.scheduleSweep();
+            }
+        },this.config.sweepIntervalMinutes*60*1000);
+    }
 
-        const key=toKey(collection,id);
-        const m=this.memCache[key];
-        if(m){
-            return m;
+    /**
+     * Removes expired records, orphaned ref records and the least recently updated records
+     * exceeding maxRecords or maxDbBytes. The database is vacuumed once vacuumThreshold records
+     * have been removed. Removed records are not reported to listeners.
+     */
+    public async sweepAsync():Promise<DbSweepResult>
+    {
+        const result:DbSweepResult={
+            expired:0,
+            orphaned:0,
+            evicted:0,
+            vacuumed:false
         }
 
-        const r=await this.selectAsync(
-            'SELECT * FROM "objs" where "objId" = ? AND "collection" = ? LIMIT 1',
-        [id.toString(),collection]);
+        const release=await this.writeLock.waitAsync();
+        try{
 
-        if(!r.rows?.length){
-            return undefined;
-        }
+            // expired records are still used to revalidate, are served while revalidating and
+            // by offlineFallback until the grace period ends
+            const expiredBefore=new Date().getTime()-this.config.sweepExpiredGraceMinutes*60*1000;
+            const expired=(await this.engine.getExpiredKeysAsync(expiredBefore)).filter(k=>
+                !this.isStaleWhileRevalidate(getObjCollection(k)));
+            result.expired=await this.deleteRowsAsync(expired);
 
-        const row:DbRecord=r.rows.item(0);
-        if(!row){
-            return undefined;
-        }
+            result.orphaned=await this.deleteOrphanedRefsAsync();
 
-        const record:DbMemRecord={
-            expires:row.expires,
-            collection:row.collection,
-            refCollection:row.refCollection||null,
-            objId:row.objId,
-            obj:JSON.parse(row.obj)
-        }
+            result.evicted=await this.enforceQuotaAsync();
 
-        this.memCache[key]=record;
-        return record;
+            if(result.expired+result.orphaned+result.evicted>=this.config.vacuumThreshold){
+                await this.engine.vacuumAsync();
+                result.vacuumed=true;
+            }
 
-    }
+        }finally{
+            release();
+        }
 
-    public async setAsync(collection:string,obj:any):Promise<void>
-    {
-        await this.setRecordsAsync('set',[{
-            expires:this.getExpires(),
-            collection,
-            refCollection:null,
-            objId:this.getPrimaryKey(collection,obj),
-            obj:obj||null
-        }])
+        return result;
     }
 
-    public newAsync(collection:string,obj:any):Promise<void>
+    /**
+     * Deletes the records of the given keys.
+     * Should only be called while holding the write lock.
+     */
+    private async deleteRowsAsync(list:DbRecordKey[]):Promise<number>
     {
-        if(typeof obj !== 'object'){
-            throw new Error('newAsync obj param must be an object')
+        // records retained by mounted hooks are kept
+        list=list.filter(row=>!this.memCache.isRetained(toKey(row.collection,row.objId)));
+        if(!list.length){
+            return 0;
         }
-        return this.removeRecordAsync(collection,this.getPrimaryKey(collection,obj),false,'reset',obj);
+
+        await this.engine.deleteRecordsAsync(list);
+
+        for(const row of list){
+            this.memCache.delete(toKey(row.collection,row.objId));
+        }
+
+        return list.length;
     }
 
-    public updateAsync(collection:string,id:IdParam,includeRefs:boolean=false):Promise<void>
+    private async deleteOrphanedRefsAsync():Promise<number>
     {
-        return this.removeRecordAsync(collection,id,includeRefs,'reset');
+        const refs=await this.engine.getRefRecordsAsync();
+
+        const orphans:DbRecordKey[]=[];
+        for(const row of refs){
+            const ref:DbRecordRef|null=row.obj?JSON.parse(row.obj):null;
+            const ids=ref?.ids||(ref?.id?[ref.id]:[]);
+            if(!ids.length){
+                continue;
+            }
+
+            // ref records created before DbRecordRef.collection was added only store the
+            // referenced collection in the refCollection column for mapped objects
+            const refCollection=ref?.collection||(row.collection.includes(':REF:')?null:row.refCollection);
+            if(!refCollection){
+                continue;
+            }
+
+            const count=await this.engine.countRecordsAsync(refCollection,ids);
+            if(count<ids.length){
+                orphans.push({collection:row.collection,objId:row.objId});
+            }
+        }
+
+        return await this.deleteRowsAsync(orphans);
     }
 
-    public async updateInPlaceAsync<T>(collection:string,id:IdParam,update:(obj:T,collection:string,id:IdParam)=>T|null):Promise<T|null>
+    private async enforceQuotaAsync():Promise<number>
     {
-
-        const cached=await this.findLocalRecordAsync(collection,id);
-        if(!cached || isExpired(cached)){
-            return null;
+        const {maxRecords,maxDbBytes}=this.config;
+        if(maxRecords<=0 && maxDbBytes<=0){
+            return 0;
         }
 
-        const obj=update(cached.obj,collection,id);
-        if(obj===null){
-            return null;
+        let {count,size}=await this.engine.getStatsAsync();
+
+        const isOverQuota=()=>(maxRecords>0 && count>maxRecords) || (maxDbBytes>0 && size>maxDbBytes);
+        if(!isOverQuota()){
+            return 0;
+        }
+
+        const evict:DbRecordKey[]=[];
+        const pageSize=500;
+        let offset=0;
+        while(isOverQuota()){
+            const page=await this.engine.getLeastRecentlyUpdatedAsync(pageSize,offset);
+            if(!page.length){
+                break;
+            }
+            for(let i=0;i<page.length && isOverQuota();i++){
+                const row=page[i];
+                if(this.memCache.isRetained(toKey(row.collection,row.objId))){
+                    continue;
+                }
+                evict.push({collection:row.collection,objId:row.objId});
+                count--;
+                size-=row.size||0;
+            }
+            offset+=pageSize;
+        }
+
+        // synced collections missing records have to be downloaded again
+        await this.resetSyncCheckpointsAsync(evict.map(e=>e.collection));
+
+        return await this.deleteRowsAsync(evict);
+    }
+
+    private scheduleSync(delay:number)
+    {
+        if(this.syncTimer){
+            clearTimeout(this.syncTimer);
+            this.syncTimer=null;
+        }
+        if(!this.config.syncCollections){
+            return;
+        }
+        this.syncTimer=setTimeout(async ()=>{
+            await this.syncCollectionsAsync();
+            if(this.syncTimer && this.config.syncIntervalMinutes>0){
+                this.scheduleSync(this.config.syncIntervalMinutes*60*1000);
+            }
+        },delay);
+    }
+
+    /**
+     * Syncs all collections defined by config.syncCollections. Collections that fail to sync
+     * are retried on the next sync.
+     */
+    public async syncCollectionsAsync():Promise<void>
+    {
+        for(const collection in this.config.syncCollections){
+            if(!this.online){
+                return;
+            }
+            try{
+                await this.syncCollectionAsync(collection);
+            }catch(ex){
+                console.error('ClientDb collection sync failed',collection,ex);
+            }
+        }
+    }
+
+    /**
+     * Requests the changes of a synced collection made since the last sync and applies them as
+     * a single batch. The checkpoint of the last applied changes is stored in a
+     * syncCheckpoint:{collection} setting.
+     * @returns The number of changes applied
+     */
+    public syncCollectionAsync(collection:string):Promise<number>
+    {
+        return this.syncAsync<number>(['syncCollection',collection],async ()=>{
+            const sync=this.config.syncCollections?.[collection];
+            if(!sync){
+                throw new Error('Collection not configured for syncing - '+collection);
+            }
+
+            const settingName='syncCheckpoint:'+collection;
+            const endpoint=sync.endpoint||this.getEndPoint(collection,null,'changes');
+
+            let checkpoint=await this.engine.getSettingAsync(settingName);
+            let count=0;
+            while(true){
+                const changes=await this.http.getAsync<DbChanges>(checkpoint?
+                    endpoint+(endpoint.includes('?')?'&':'?')+'since='+encodeURIComponent(checkpoint):
+                    endpoint);
+                if(!changes){
+                    throw new Error('Empty changes response - '+collection);
+                }
+
+                count+=await this.applyChangesAsync(collection,changes);
+
+                const next=String(changes.checkpoint??'');
+                await this.engine.setSettingAsync(settingName,next);
+
+                if(!changes.hasMore || !next || next===checkpoint){
+                    break;
+                }
+                checkpoint=next;
+            }
+            return count;
+        });
+    }
+
+    private async applyChangesAsync(collection:string,changes:DbChanges):Promise<number>
+    {
+        const upserts=changes.upserts||[];
+        const deletes=changes.deletes||[];
+
+        if(upserts.length){
+            const expires=this.getExpires(collection);
+            await this.setRecordsAsync('set',upserts.map(obj=>({
+                expires,
+                collection,
+                refCollection:null,
+                objId:this.getPrimaryKey(collection,obj),
+                obj
+            })));
+        }
+
+        if(deletes.length){
+            await this.removeRecordsAsync(collection,deletes.map(id=>String(id)),'delete');
+        }
+
+        return upserts.length+deletes.length;
+    }
+
+    /**
+     * Clears the sync checkpoints of the synced collections in collections so that their next
+     * sync downloads all objects. Returns true if any checkpoint was cleared.
+     */
+    private async resetSyncCheckpointsAsync(collections:string[]):Promise<boolean>
+    {
+        let reset=false;
+        for(const collection of new Set(collections)){
+            if(this.config.syncCollections?.[collection]){
+                await this.engine.setSettingAsync('syncCheckpoint:'+collection,'');
+                reset=true;
+            }
+        }
+        return reset;
+    }
+
+    private async findLocalRecordAsync(collection:string, id:IdParam):Promise<DbMemRecord|undefined>
+    {
+        if(id===null || id===undefined){
+            return undefined;
+        }
+
+        const key=toKey(collection,id);
+        const m=this.memCache.get(key);
+        if(m){
+            return m;
+        }
+
+        const row=await this.engine.getRecordAsync(collection,id.toString());
+        if(!row){
+            return undefined;
+        }
+
+        return this.cacheRow(row);
+
+    }
+
+    /**
+     * Queries the objects of a collection stored in the local cache. No requests are made to
+     * data sources.
+     */
+    public async queryLocalAsync<T>(collection:string,query:DbQuery={}):Promise<T[]>
+    {
+        const rows=await this.engine.queryRecordsAsync(collection,query,new Date().getTime());
+
+        const objs:T[]=[];
+        for(const row of rows){
+            // prefer the memory cached copy so that objects keep the same identity
+            const cached=this.memCache.get(toKey(row.collection,row.objId));
+            objs.push(cached?cached.obj:this.cacheRow(row).obj);
+        }
+        return objs;
+    }
+
+    public async setAsync(collection:string,obj:any,ttl?:number):Promise<void>
+    {
+        await this.setRecordsAsync('set',[{
+            expires:this.getExpires(collection,ttl),
+            collection,
+            refCollection:null,
+            objId:this.getPrimaryKey(collection,obj),
+            obj:obj||null
+        }])
+    }
+
+    public newAsync(collection:string,obj:any):Promise<void>
+    {
+        if(typeof obj !== 'object'){
+            throw new Error('newAsync obj param must be an object')
+        }
+        return this.removeRecordAsync(collection,this.getPrimaryKey(collection,obj),false,'reset',obj);
+    }
+
+    public updateAsync(collection:string,id:IdParam,includeRefs:boolean=false):Promise<void>
+    {
+        return this.removeRecordAsync(collection,id,includeRefs,'reset');
+    }
+
+    public async updateInPlaceAsync<T>(collection:string,id:IdParam,update:(obj:T,collection:string,id:IdParam)=>T|null):Promise<T|null>
+    {
+
+        const cached=await this.findLocalRecordAsync(collection,id);
+        if(!cached || isExpired(cached)){
+            return null;
+        }
+
+        const obj=update(cached.obj,collection,id);
+        if(obj===null){
+            return null;
         }
         if(obj===cached.obj){
             throw new Error(
@@ -517,6 +1060,79 @@ export default class ClientDb
         return obj;
     }
 
+    /**
+     * Applies an update to the cached copy of an object then sends the change to the object's
+     * data source. If the request fails the previous copy of the object is restored, listeners are
+     * notified and the error is rethrown. If the cached copy has expired the update is sent without
+     * changing the cached copy first. An error is thrown if the object is not cached.
+     * @param update Should return a new copy of the target object or null to cancel the update
+     * @param method put sends the full updated object, patch sends only the changed properties
+     */
+    public async optimisticUpdateAsync<T>(
+        collection:string,
+        id:IdParam,
+        update:(obj:T,collection:string,id:IdParam)=>T|null,
+        method:'put'|'patch'='patch',
+        endpoint?:string)
+        :Promise<T|null>
+    {
+        const previous=await this.findLocalRecordAsync(collection,id);
+        if(!previous){
+            throw new Error(
+                'optimisticUpdateAsync requires a cached copy of the target object. '+
+                'Collection:'+collection+', id:'+id);
+        }
+
+        const obj=update(previous.obj,collection,id);
+        if(obj===null){
+            return null;
+        }
+        if(obj===previous.obj){
+            throw new Error(
+                'optimisticUpdateAsync updated should return a new copy of the target object. '+
+                'Collection:'+collection+', id:'+id);
+        }
+
+        // an expired copy may be out of date so only the request is sent
+        const optimistic:DbMemRecord|null=isExpired(previous)?null:{
+            expires:previous.expires,
+            collection,
+            refCollection:previous.refCollection,
+            objId:previous.objId,
+            obj
+        }
+        if(optimistic){
+            await this.setRecordsAsync('update',[optimistic]);
+        }
+
+        try{
+            if(method==='put'){
+                return await this.replaceRemoteAsync<T>(collection,obj,endpoint);
+            }else{
+                return await this.patchRemoteAsync<T>(collection,id,getChanges(previous.obj,obj),endpoint);
+            }
+        }catch(ex){
+            if(optimistic){
+                await this.rollbackRecordAsync(previous,optimistic);
+            }
+            throw ex;
+        }
+    }
+
+    /**
+     * Restores the previous copy of a record. If the record has changed since the optimistic copy
+     * was applied the record is reset and will be retrieved from its data source.
+     */
+    private async rollbackRecordAsync(previous:DbMemRecord,optimistic:DbMemRecord):Promise<void>
+    {
+        const current=this.memCache.peek(toKey(optimistic.collection,optimistic.objId));
+        if(current===optimistic){
+            await this.setRecordsAsync('update',[previous]);
+        }else{
+            await this.removeRecordAsync(optimistic.collection,optimistic.objId,false,'reset');
+        }
+    }
+
     public deleteAsync(collection:string,id:IdParam):Promise<void>
     {
         return this.removeRecordAsync(collection,id,false,'delete');
@@ -530,62 +1146,785 @@ export default class ClientDb
             (property?'/'+property:'');
     }
 
-    public getObjAsync<T>(collection:string,id:IdParam,endpoint?:string):Promise<T|null>
+    /**
+     * Creates an object using a POST request and stores the object returned by the server.
+     * Listeners are notified with a set event.
+     */
+    public async createRemoteAsync<T>(collection:string,obj:Partial<T>,endpoint?:string):Promise<T|null>
+    {
+        const result=await this.http.postAsync<T>(endpoint||this.getEndPoint(collection,null),obj);
+        if(!result){
+            return null;
+        }
+
+        await this.setRecordsAsync('set',[{
+            expires:this.getExpires(collection),
+            collection,
+            refCollection:null,
+            objId:this.getPrimaryKey(collection,result),
+            obj:result
+        }]);
+
+        return result;
+    }
+
+    /**
+     * Replaces an object using a PUT request. If the server does not return the updated object
+     * the sent object is stored. Listeners are notified with an update event.
+     */
+    public async replaceRemoteAsync<T>(collection:string,obj:T,endpoint?:string):Promise<T>
+    {
+        const id=this.getPrimaryKey(collection,obj);
+        if(!id){
+            throw new Error('replaceRemoteAsync requires an object with a primary key. Collection:'+collection);
+        }
+
+        const result=await this.http.putAsync<T>(endpoint||this.getEndPoint(collection,id),obj);
+        const updated=result||obj;
+
+        await this.setRecordsAsync('update',[{
+            expires:this.getExpires(collection),
+            collection,
+            refCollection:null,
+            objId:id,
+            obj:updated
+        }]);
+
+        return updated;
+    }
+
+    /**
+     * Updates an object using a PATCH request. If the server does not return the updated object,
+     * or returns an object without a primary key, the patch and the response are merged into the
+     * cached copy of the object. If no cached copy exists the object is reset and will be
+     * retrieved from its data source.
+     */
+    public async patchRemoteAsync<T>(collection:string,id:IdParam,patch:Partial<T>,endpoint?:string):Promise<T|null>
+    {
+        if(id===null || id===undefined){
+            throw new Error('patchRemoteAsync requires an id. Collection:'+collection);
+        }
+
+        const result=await this.http.patchAsync<T>(endpoint||this.getEndPoint(collection,id),patch);
+
+        let updated:T|null=result||null;
+        if(!updated || !this.getPrimaryKey(collection,updated)){
+            // the response is not a full object, for example an echo of the patch
+            const cached=await this.findLocalRecordAsync(collection,id);
+            updated=cached?.obj?{...cached.obj,...patch,...(updated||{})}:null;
+        }
+
+        if(!updated){
+            await this.removeRecordAsync(collection,id,false,'reset');
+            return null;
+        }
+
+        await this.setRecordsAsync('update',[{
+            expires:this.getExpires(collection),
+            collection,
+            refCollection:null,
+            objId:id.toString(),
+            obj:updated
+        }]);
+
+        return updated;
+    }
+
+    /**
+     * Deletes an object using a DELETE request then removes the object from the cache.
+     * Listeners are notified with a delete event.
+     */
+    public async deleteRemoteAsync(collection:string,id:IdParam,endpoint?:string):Promise<void>
+    {
+        if(id===null || id===undefined){
+            throw new Error('deleteRemoteAsync requires an id. Collection:'+collection);
+        }
+
+        await this.http.deleteAsync(endpoint||this.getEndPoint(collection,id));
+
+        await this.removeRecordAsync(collection,id,false,'delete');
+    }
+
+    public addMutationListener(listener:MutationListener)
+    {
+        this.mutationListeners.push(listener);
+    }
+
+    public removeMutationListener(listener:MutationListener)
+    {
+        const index=this.mutationListeners.indexOf(listener);
+        if(index!==-1){
+            this.mutationListeners.splice(index,1);
+        }
+    }
+
+    private callMutationListeners(type:MutationEventType,mutation:PendingMutation,error?:any)
+    {
+        for(const l of this.mutationListeners){
+            l(type,mutation,error);
+        }
+    }
+
+    public isOnline():boolean
+    {
+        return this.online;
+    }
+
+    /**
+     * Sets the connectivity state of the client. Pending mutations are replayed when the client
+     * comes back online.
+     */
+    public setOnline(online:boolean)
     {
-        return this.syncAsync<T|null>(['getObjAsync',collection,id],async ()=>{
+        if(this.online===online){
+            return;
+        }
+        this.online=online;
+        if(online){
+            this.scheduleOutboxReplay(0);
+            this.scheduleSync(0);
+        }
+    }
+
+    /**
+     * Adds a mutation to the outbox and applies the mutation to the local cache. Mutations are
+     * sent to their data source in the order they were queued.
+     * @param type Type of mutation
+     * @param collection Collection of the target object
+     * @param id Id of the target object. Ignored for create mutations, the primary key of data is used.
+     * @param data The object for create and replace mutations or the patch for patch mutations
+     * @param endpoint Optional endpoint to send the mutation to
+     */
+    public async queueMutationAsync(
+        type:MutationType,
+        collection:string,
+        id:IdParam,
+        data?:any,
+        endpoint?:string)
+        :Promise<PendingMutation>
+    {
+        if(type==='create' || type==='replace'){
+            if(typeof data !== 'object' || !data){
+                throw new Error(`queueMutationAsync ${type} requires an object`);
+            }
+            id=this.getPrimaryKey(collection,data)||null;
+        }
+        if(type!=='create' && (id===null || id===undefined)){
+            throw new Error(`queueMutationAsync ${type} requires an id. Collection:${collection}`);
+        }
+
+        const now=new Date().getTime();
+        const mutation:PendingMutation={
+            id:0,
+            type,
+            collection,
+            objId:id===null || id===undefined?null:id.toString(),
+            data:data===undefined?null:data,
+            endpoint:endpoint||null,
+            created:now,
+            attempts:0,
+            nextAttempt:now,
+            lastError:null,
+            failed:false
+        }
+
+        mutation.id=await this.engine.addMutationAsync(mutation);
+
+        await this.applyMutationLocallyAsync(mutation);
+
+        this.callMutationListeners('queued',mutation);
+
+        this.scheduleOutboxReplay(0);
+
+        return mutation;
+    }
+
+    /**
+     * Returns all mutations waiting to be sent in the order they will be sent
+     */
+    public async getPendingMutationsAsync():Promise<PendingMutation[]>
+    {
+        return await this.engine.getMutationsAsync();
+    }
+
+    /**
+     * Sends a failed mutation again
+     */
+    public async retryMutationAsync(id:number):Promise<void>
+    {
+        const mutation=(await this.engine.getMutationsAsync()).find(m=>m.id===id);
+        if(!mutation?.failed){
+            return;
+        }
+        mutation.failed=false;
+        mutation.attempts=0;
+        mutation.nextAttempt=new Date().getTime();
+        await this.engine.updateMutationAsync(mutation);
+        this.callMutationListeners('queued',mutation);
+        this.scheduleOutboxReplay(0);
+    }
+
+    /**
+     * Removes a failed mutation from the outbox and resets the local copy of its object so that
+     * it is reloaded from its data source
+     */
+    public async discardMutationAsync(id:number):Promise<void>
+    {
+        const mutation=(await this.engine.getMutationsAsync()).find(m=>m.id===id);
+        if(!mutation?.failed){
+            return;
+        }
+        await this.engine.deleteMutationAsync(mutation.id);
+        if(mutation.objId){
+            await this.removeRecordAsync(mutation.collection,mutation.objId,false,'reset');
+        }
+        this.callMutationListeners('discarded',mutation);
+    }
+
+    private async applyMutationLocallyAsync(mutation:PendingMutation):Promise<void>
+    {
+        const {collection,objId,data}=mutation;
+
+        switch(mutation.type){
+
+            case 'create':
+                if(objId){
+                    await this.setAsync(collection,data);
+                }
+                break;
+
+            case 'replace':
+                await this.setRecordsAsync('update',[{
+                    expires:this.getExpires(collection),
+                    collection,
+                    refCollection:null,
+                    objId:objId as string,
+                    obj:data
+                }]);
+                break;
+
+            case 'patch':{
+                const cached=await this.findLocalRecordAsync(collection,objId);
+                if(cached?.obj){
+                    await this.setRecordsAsync('update',[{
+                        expires:cached.expires,
+                        collection,
+                        refCollection:cached.refCollection,
+                        objId:objId as string,
+                        obj:{...cached.obj,...data}
+                    }]);
+                }
+                break;
+            }
+
+            case 'delete':
+                await this.deleteAsync(collection,objId);
+                break;
+        }
+    }
+
+    private sendMutationAsync(mutation:PendingMutation):Promise<any>
+    {
+        const endpoint=mutation.endpoint||undefined;
+        switch(mutation.type){
+            case 'create':
+                return this.createRemoteAsync(mutation.collection,mutation.data,endpoint);
+            case 'replace':
+                return this.replaceRemoteAsync(mutation.collection,mutation.data,endpoint);
+            case 'patch':
+                return this.patchRemoteAsync(mutation.collection,mutation.objId,mutation.data,endpoint);
+            case 'delete':
+                return this.deleteRemoteAsync(mutation.collection,mutation.objId,endpoint);
+            default:
+                throw new Error('Unknown mutation type - '+mutation.type);
+        }
+    }
+
+    private scheduleOutboxReplay(delay:number)
+    {
+        if(this.outboxTimer){
+            clearTimeout(this.outboxTimer);
+        }
+        this.outboxTimer=setTimeout(()=>{
+            this.outboxTimer=null;
+            this.replayMutationsAsync().catch(err=>{
+                console.error('ClientDb outbox replay failed',err);
+            });
+        },delay);
+    }
+
+    /**
+     * Sends pending mutations in order. Replaying stops at the first mutation that fails and is
+     * retried using an exponential backoff.
+     */
+    public async replayMutationsAsync():Promise<void>
+    {
+        const release=await this.outboxLock.waitAsync();
+        try{
+            while(this.online){
+
+                const mutation=(await this.engine.getMutationsAsync()).find(m=>!m.failed);
+                if(!mutation){
+                    return;
+                }
+
+                const now=new Date().getTime();
+                if(mutation.nextAttempt>now){
+                    this.scheduleOutboxReplay(mutation.nextAttempt-now);
+                    return;
+                }
+
+                try{
+                    await this.sendMutationAsync(mutation);
+                }catch(ex){
+                    mutation.lastError=(ex as any)?.message||String(ex);
+
+                    const errorType:DbOutboxErrorType=this.online?
+                        (this.config.outboxErrorType?.(ex,mutation)||'network'):'network';
+                    if(errorType==='network'){
+                        this.outboxNetworkFailures++;
+                    }else{
+                        mutation.attempts++;
+                    }
+
+                    const max=this.config.outboxMaxAttempts;
+                    if(errorType==='fail' || (errorType==='retry' && max>0 && mutation.attempts>=max)){
+                        mutation.failed=true;
+                        await this.engine.updateMutationAsync(mutation);
+                        this.callMutationListeners('failed',mutation,ex);
+                        continue;
+                    }
+
+                    const delay=getBackoffDelay(
+                        errorType==='network'?this.outboxNetworkFailures:mutation.attempts,
+                        this.config.outboxRetryDelayMs,
+                        this.config.outboxMaxRetryDelayMs);
+                    mutation.nextAttempt=now+delay;
+
+                    await this.engine.updateMutationAsync(mutation);
+
+                    this.callMutationListeners('retry',mutation,ex);
+                    this.scheduleOutboxReplay(delay);
+                    return;
+                }
+
+                this.outboxNetworkFailures=0;
+                await this.engine.deleteMutationAsync(mutation.id);
+                this.callMutationListeners('sent',mutation);
+            }
+        }finally{
+            release();
+        }
+    }
+
+    private isStaleWhileRevalidate(collection:string):boolean
+    {
+        const value=this.config.staleWhileRevalidateMap?.[collection];
+        return (value===undefined || value===null)?this.config.staleWhileRevalidate:value;
+    }
+
+    /**
+     * Sends a GET request. Failed requests are retried using the retryPolicy of the config.
+     */
+    private async httpGetAsync<T>(path:string,cached?:DbMemRecord|null,signal?:AbortSignal|null):Promise<HttpGetResult<T>>
+    {
+        const policy=this.config.retryPolicy;
+        for(let attempt=1;;attempt++){
+            try{
+                return await this.sendGetAsync<T>(path,cached,signal);
+            }catch(ex){
+                if(!policy || signal?.aborted || attempt>=policy.maxAttempts ||
+                    (policy.isRetryable && !policy.isRetryable(ex,attempt)))
+                {
+                    throw ex;
+                }
+                const delay=getBackoffDelay(attempt,policy.retryDelayMs,policy.maxRetryDelayMs);
+                await new Promise(r=>setTimeout(r,delay));
+                if(signal?.aborted){
+                    throw toAbortError(signal);
+                }
+            }
+        }
+    }
+
+    /**
+     * Sends a single GET request. If the http client supports response headers and a cached
+     * record is given a conditional request is made using the validators of the cached record.
+     */
+    private async sendGetAsync<T>(path:string,cached?:DbMemRecord|null,signal?:AbortSignal|null):Promise<HttpGetResult<T>>
+    {
+        if(!this.http.getResponseAsync){
+            const obj=await this.http.getAsync<T>(path,undefined,signal?{signal}:undefined);
+            return {
+                obj:obj||null,
+                notModified:false,
+                etag:null,
+                lastModified:null,
+                noCache:false,
+                noStore:false
+            }
+        }
+
+        const headers:{[name:string]:string}={};
+        if(cached?.etag){
+            headers['If-None-Match']=cached.etag;
+        }
+        if(cached?.lastModified){
+            headers['If-Modified-Since']=cached.lastModified;
+        }
+
+        const r=await this.http.getResponseAsync<T>(path,{headers,signal});
+
+        const responseHeaders:{[name:string]:string}={};
+        for(const e in r.headers){
+            const value=r.headers[e];
+            if(value){
+                responseHeaders[e.toLowerCase()]=value;
+            }
+        }
+
+        const cacheControl=parseCacheControl(responseHeaders['cache-control']);
+
+        return {
+            obj:r.data||null,
+            notModified:r.status===304 && cached?true:false,
+            ttl:cacheControl.ttl,
+            etag:responseHeaders['etag']||null,
+            lastModified:responseHeaders['last-modified']||null,
+            noCache:cacheControl.noCache,
+            noStore:cacheControl.noStore
+        }
+    }
+
+    /**
+     * Extends the expiration of records without notifying listeners. Used when a data source
+     * reports that cached objects have not been modified.
+     */
+    private async extendRecordsAsync(collection:string,ids:string[],expires:number):Promise<void>
+    {
+        if(!ids.length){
+            return;
+        }
+
+        const release=await this.writeLock.waitAsync();
+        try{
+            await this.engine.extendRecordsAsync(collection,ids,expires,new Date().getTime());
+
+            for(const id of ids){
+                const key=toKey(collection,id);
+                const record=this.memCache.peek(key);
+                if(record){
+                    this.memCache.set(key,{...record,expires});
+                }
+            }
+        }finally{
+            release();
+        }
+    }
+
+    /**
+     * @param signal Stops waiting for the object. The request is aborted once all callers waiting
+     * for the same object have aborted.
+     * @param noCache Loads the object from its data source even if the cached copy is fresh. The
+     * cached copy is only replaced after a successful response.
+     */
+    public getObjAsync<T>(collection:string,id:IdParam,endpoint?:string,ttl?:number,signal?:AbortSignal|null,noCache:boolean=false):Promise<T|null>
+    {
+        const deps=['getObjAsync',collection,id];
+        return this.syncAsync<T|null>(noCache?[...deps,'noCache']:deps,async requestSignal=>{
             if(id===null || id===undefined){
                 return null;
             }
 
             const cached=await this.findLocalRecordAsync(collection,id);
-            if(cached && !isExpired(cached)){
+            if(cached && !noCache && !mustRevalidate(cached)){
+                return cached.obj;
+            }
+
+            if(cached?.obj && !noCache && this.isStaleWhileRevalidate(collection)){
+                this.revalidate(deps,()=>this.fetchObjAsync<T>(collection,id,endpoint,ttl,cached));
                 return cached.obj;
             }
 
-            const obj=await this.http.getAsync<T>(endpoint||this.getEndPoint(collection,id));
+            return await this.fetchWithFallbackAsync(async ()=>{
+                const revalidating=this.getRevalidation<T|null>(deps);
+                if(revalidating){
+                    return await revalidating;
+                }
 
-            await this.setRecordsAsync('set',[{
-                expires:this.getExpires(),
-                collection,
-                refCollection:null,
-                objId:id.toString(),
-                obj:obj||null
-            }])
+                if(!endpoint && this.config.batchCollections?.[collection]){
+                    return await this.fetchBatchedObjAsync<T>(collection,id,ttl,requestSignal);
+                }
+
+                return await this.fetchObjAsync<T>(collection,id,endpoint,ttl,cached,requestSignal);
+            },cached?.obj,requestSignal);
+        },signal);
+    }
+
+    private async fetchObjAsync<T>(
+        collection:string,
+        id:string|number,
+        endpoint?:string,
+        ttl?:number,
+        cached?:DbMemRecord,
+        signal?:AbortSignal|null)
+        :Promise<T|null>
+    {
+        const result=await this.httpGetAsync<T>(endpoint||this.getEndPoint(collection,id),cached,signal);
+        const expires=this.getExpires(collection,ttl??result.ttl);
+
+        if(result.notModified && cached){
+            await this.extendRecordsAsync(collection,[cached.objId],expires);
+            return cached.obj;
+        }
+
+        const obj=result.obj;
+        if(result.noStore){
+            return obj||null;
+        }
+
+        await this.setRecordsAsync('set',[{
+            expires,
+            collection,
+            refCollection:null,
+            objId:id.toString(),
+            obj:obj||null,
+            etag:result.etag,
+            lastModified:result.lastModified,
+            noCache:result.noCache
+        }])
+
+        return obj||null;
+    }
+
+    /**
+     * Queues an object to be loaded with the other objects of the collection requested in the
+     * same tick. Aborting rejects right away and removes the object from the batch if the batch
+     * has not been sent yet.
+     */
+    private fetchBatchedObjAsync<T>(collection:string,id:string|number,ttl:number|undefined,signal:AbortSignal):Promise<T|null>
+    {
+        if(signal.aborted){
+            return Promise.reject(toAbortError(signal));
+        }
+        return new Promise<T|null>((resolve,reject)=>{
+            const batch=this.objBatches[collection]||this.createObjBatch(collection);
+            const onAbort=()=>{
+                const index=batch.indexOf(request);
+                if(index!==-1){
+                    batch.splice(index,1);
+                }
+                reject(toAbortError(signal));
+            }
+            const request:BatchedObjRequest={
+                id:id.toString(),
+                ttl,
+                signal,
+                resolve:obj=>{
+                    signal.removeEventListener('abort',onAbort);
+                    resolve(obj);
+                },
+                reject:reason=>{
+                    signal.removeEventListener('abort',onAbort);
+                    reject(reason);
+                }
+            };
+            signal.addEventListener('abort',onAbort);
+            batch.push(request);
+        });
+    }
+
+    /**
+     * Creates the batch of a collection. The batch is sent in the next tick
+     */
+    private createObjBatch(collection:string):BatchedObjRequest[]
+    {
+        const batch:BatchedObjRequest[]=[];
+        this.objBatches[collection]=batch;
+        setTimeout(()=>{
+            delete this.objBatches[collection];
+            // emptied so that requests aborted after sending are not looked up in the batch
+            this.sendObjBatches(collection,batch.splice(0));
+        },0);
+        return batch;
+    }
+
+    private sendObjBatches(collection:string,requests:BatchedObjRequest[])
+    {
+        const maxBatchSize=this.config.batchCollections?.[collection]?.maxBatchSize||defaultMaxBatchSize;
+        for(let i=0;i<requests.length;i+=maxBatchSize){
+            this.sendObjBatchAsync(collection,requests.slice(i,i+maxBatchSize));
+        }
+    }
+
+    /**
+     * Loads a batch of objects and stores them. The request is aborted once all objects of the
+     * batch have been aborted.
+     */
+    private async sendObjBatchAsync(collection:string,requests:BatchedObjRequest[]):Promise<void>
+    {
+        const controller=new AbortController();
+        let waiting=requests.length;
+        const onAbort=()=>{
+            waiting--;
+            if(!waiting){
+                controller.abort();
+            }
+        }
+        for(const request of requests){
+            request.signal.addEventListener('abort',onAbort);
+        }
+
+        try{
+            const ids=[...new Set(requests.map(r=>r.id))];
+            const base=this.config.batchCollections?.[collection]?.endpoint||this.getEndPoint(collection,null);
+            const endpoint=base+(base.includes('?')?'&':'?')+'ids='+ids.map(encodeURIComponent).join(',');
+
+            const result=await this.httpGetAsync<any[]>(endpoint,null,controller.signal);
+
+            const objs:{[id:string]:any}={};
+            for(const obj of result.obj||[]){
+                if(obj){
+                    objs[this.getPrimaryKey(collection,obj)]=obj;
+                }
+            }
+
+            if(!result.noStore){
+                await this.setRecordsAsync('set',ids.map<DbMemRecord>(id=>({
+                    expires:this.getExpires(collection,requests.find(r=>r.id===id)?.ttl??result.ttl),
+                    collection,
+                    refCollection:null,
+                    objId:id,
+                    obj:objs[id]||null,
+                    noCache:result.noCache
+                })));
+            }
+
+            for(const request of requests){
+                request.resolve(objs[request.id]||null);
+            }
+        }catch(ex){
+            for(const request of requests){
+                request.reject(ex);
+            }
+        }finally{
+            for(const request of requests){
+                request.signal.removeEventListener('abort',onAbort);
+            }
+        }
+    }
+
+    public async getMappedObj<T>(
+        endpoint:string,
+        isCollection:boolean,
+        cacheKey:string,
+        cacheId:number,
+        collection:string,
+        noCache:boolean=false,
+        ttl?:number,
+        signal?:AbortSignal|null):Promise<T|null>
+    {
+
+        const deps=['getMappedObj',cacheKey,cacheId];
+
+        let cached=noCache?undefined:await this.findLocalRecordAsync(cacheKey,cacheId);
+        let local:any=null;
+        if(cached){
+            const stale=mustRevalidate(cached);
+            const swr=this.isStaleWhileRevalidate(collection);
+            if(!stale || swr || hasValidators(cached) || this.config.offlineFallback){
+                local=await this.findLocalMappedObjAsync(isCollection,cacheKey,cacheId,collection,cached.obj);
+                if(local){
+                    if(!stale){
+                        return local;
+                    }
+                    if(swr){
+                        const record=cached;
+                        this.revalidate(deps,()=>this.fetchMappedObjAsync(
+                            endpoint,isCollection,cacheKey,cacheId,collection,ttl,record,local));
+                        return local;
+                    }
+                }else{
+                    await this.deleteAsync(cacheKey,cacheId);
+                    cached=undefined;
+                }
+            }
+        }
+
+        return await this.fetchWithFallbackAsync(async ()=>{
+            const revalidating=this.getRevalidation<T|null>(deps);
+            if(revalidating){
+                return await revalidating;
+            }
+
+            return await this.fetchMappedObjAsync<T>(
+                endpoint,isCollection,cacheKey,cacheId,collection,ttl,cached,local,signal);
+        },local,signal);
+    }
 
-            return obj||null;
-        });
+    /**
+     * Returns the cached value of a mapped object, expired or not, without sending a request
+     */
+    public async getLocalMappedObjAsync<T>(
+        isCollection:boolean,
+        cacheKey:string,
+        cacheId:number,
+        collection:string):Promise<T|null>
+    {
+        const cached=await this.findLocalRecordAsync(cacheKey,cacheId);
+        if(!cached){
+            return null;
+        }
+        return await this.findLocalMappedObjAsync(isCollection,cacheKey,cacheId,collection,cached.obj);
     }
 
-    public async getMappedObj<T>(
-        endpoint:string,
+    private async findLocalMappedObjAsync(
         isCollection:boolean,
         cacheKey:string,
         cacheId:number,
         collection:string,
-        noCache:boolean=false):Promise<T|null>
+        recordRef:DbRecordRef):Promise<any|null>
     {
-
-        const cached=noCache?undefined:await this.findLocalRecordAsync(cacheKey,cacheId);
-        if(cached && !isExpired(cached)){
-
-            if(isCollection){
-                const col=await this.findLocalCollectionAsync(cacheKey,collection,cacheId.toString(),cached.obj);
-                if(col){
-                    return col as any;
-                }
-            }else{
-                const firstId=(cached.obj as DbRecordRef)?.ids?.[0];
-                if(firstId){
-                    const rObj=await this.findLocalRecordAsync(collection,firstId);
-                    if(rObj){
-                        return rObj.obj
-                    }
+        if(isCollection){
+            return await this.findLocalCollectionAsync(cacheKey,collection,cacheId.toString(),recordRef);
+        }else{
+            const firstId=recordRef?.ids?.[0];
+            if(firstId){
+                const rObj=await this.findLocalRecordAsync(collection,firstId);
+                if(rObj){
+                    return rObj.obj
                 }
             }
-            await this.deleteAsync(cacheKey,cacheId);
+            return null;
+        }
+    }
+
+    /**
+     * @param cached The cached ref record of the mapped object. Only used for conditional requests
+     * @param local The locally resolved mapped object. Returned if the data source reports no changes
+     */
+    private async fetchMappedObjAsync<T>(
+        endpoint:string,
+        isCollection:boolean,
+        cacheKey:string,
+        cacheId:number,
+        collection:string,
+        ttl?:number,
+        cached?:DbMemRecord,
+        local?:any,
+        signal?:AbortSignal|null):Promise<T|null>
+    {
+        const result=await this.httpGetAsync<T>(endpoint,local?cached:null,signal);
+        const expires=this.getExpires(collection,ttl??result.ttl);
+
+        if(result.notModified && cached && local){
+            const ref=cached.obj as DbRecordRef;
+            await this.extendRecordsAsync(collection,ref.ids||[],expires);
+            await this.extendRecordsAsync(cacheKey,[cached.objId],expires);
+            return local;
         }
 
-        const obj=await this.http.getAsync<T>(endpoint);
+        const obj=result.obj;
 
         const ids:string[]=[];
         const records:DbMemRecord[]=[];
@@ -595,7 +1934,7 @@ export default class ClientDb
             for(const o of ary){
                 const id=this.getPrimaryKey(collection,o);
                 records.push({
-                    expires:this.getExpires(),
+                    expires,
                     collection:collection,
                     refCollection:null,
                     objId:id,
@@ -606,7 +1945,7 @@ export default class ClientDb
         }else{
             const id=this.getPrimaryKey(collection,obj);
             records.push({
-                expires:this.getExpires(),
+                expires,
                 collection:collection,
                 refCollection:null,
                 objId:id,
@@ -614,25 +1953,138 @@ export default class ClientDb
             })
             ids.push(id);
         }
-            await this.setRecordsAsync('set',records);
 
         const idRef:DbRecordRef={
-            ids
+            ids,
+            collection
         }
         records.push({
-            expires:this.getExpires(),
+            expires,
             collection:cacheKey,
             refCollection:collection,
             objId:cacheId.toString(),
-            obj:idRef
+            obj:idRef,
+            etag:result.etag,
+            lastModified:result.lastModified,
+            noCache:result.noCache
         });
 
-        await this.setRecordsAsync('set',records);
+        if(!result.noStore){
+            await this.setRecordsAsync('set',records);
+        }
 
 
         return obj||null;
     }
 
+    /**
+     * Returns a page of a paged list. Pages are stored as ref records in the PAGED:{cacheKey}
+     * collection using the index of the page as the id.
+     * @param cursor The cursor returned with the previous page
+     * @param noCache If true the page is loaded from its data source
+     */
+    public async getPageAsync<T>(
+        collection:string,
+        cacheKey:string,
+        page:number,
+        endpointBuilder:PageEndPointBuilder,
+        pageSize:number,
+        cursor:string|null,
+        noCache:boolean=false,
+        ttl?:number,
+        signal?:AbortSignal|null):Promise<DbPageResult<T>>
+    {
+        const pagedKey=toPagedKey(cacheKey);
+
+        let local:DbPageResult<T>|null=null;
+        const cached=noCache?undefined:await this.findLocalRecordAsync(pagedKey,page);
+        if(cached){
+            const ref=cached.obj as DbRecordRef;
+            const items=await this.findLocalCollectionAsync(pagedKey,collection,cached.objId,ref);
+            if(items){
+                local={items,cursor:ref.cursor??null,hasMore:ref.hasMore??false};
+                if(!mustRevalidate(cached)){
+                    return local;
+                }
+            }
+        }
+
+        return await this.fetchWithFallbackAsync(()=>this.fetchPageAsync<T>(
+            collection,pagedKey,page,endpointBuilder,pageSize,cursor,ttl,signal),local,signal);
+    }
+
+    private async fetchPageAsync<T>(
+        collection:string,
+        pagedKey:string,
+        page:number,
+        endpointBuilder:PageEndPointBuilder,
+        pageSize:number,
+        cursor:string|null,
+        ttl?:number,
+        signal?:AbortSignal|null):Promise<DbPageResult<T>>
+    {
+        const endpoint=endpointBuilder({page,offset:page*pageSize,pageSize,cursor});
+        const result=await this.httpGetAsync<T[]|DbPage<T>>(endpoint,null,signal);
+        const expires=this.getExpires(collection,ttl??result.ttl);
+
+        const response=result.obj;
+        const isAry=Array.isArray(response);
+        const items=(isAry?response as T[]:(response as DbPage<T>|null)?.items)||[];
+        const nextCursor=isAry?null:((response as DbPage<T>|null)?.nextCursor??null);
+        const hasMore=isAry?items.length>=pageSize:nextCursor?true:false;
+
+        const ids:string[]=[];
+        const records:DbMemRecord[]=[];
+        for(const obj of items){
+            const id=this.getPrimaryKey(collection,obj);
+            records.push({
+                expires,
+                collection,
+                refCollection:null,
+                objId:id,
+                obj
+            });
+            ids.push(id);
+        }
+
+        const pageRef:DbRecordRef={
+            ids,
+            collection,
+            cursor:nextCursor,
+            hasMore
+        }
+        records.push({
+            expires,
+            collection:pagedKey,
+            refCollection:collection,
+            objId:page.toString(),
+            obj:pageRef,
+            noCache:result.noCache
+        });
+
+        if(!result.noStore){
+            await this.setRecordsAsync('set',records);
+        }
+
+        return {items,cursor:nextCursor,hasMore};
+    }
+
+    /**
+     * Returns true if the cached page of a paged list exists and has expired
+     */
+    public isPageStaleAsync(cacheKey:string,page:number):Promise<boolean>
+    {
+        return this.isStaleAsync(toPagedKey(cacheKey),page);
+    }
+
+    /**
+     * Removes the cached pages of a paged list
+     */
+    public clearPagesAsync(cacheKey:string):Promise<void>
+    {
+        return this.removeAllRecordsAsync(toPagedKey(cacheKey));
+    }
+
     public getObjRefCollection<T,TRef>(
         collection:string,
         id:IdParam,
@@ -640,7 +2092,9 @@ export default class ClientDb
         property:keyof(T)|string,
         foreignKey:keyof(TRef),
         clearCache?:boolean,
-        endpoint?:string)
+        endpoint?:string,
+        ttl?:number,
+        signal?:AbortSignal|null)
         :Promise<TRef[]|null>
     {
         return this.getObjRef<T,TRef>(
@@ -651,7 +2105,9 @@ export default class ClientDb
             foreignKey as string,
             true,
             clearCache,
-            endpoint) as Promise<TRef[]|null>;
+            endpoint,
+            ttl,
+            signal) as Promise<TRef[]|null>;
 
     }
 
@@ -661,28 +2117,42 @@ export default class ClientDb
         refCollection:string,
         property:keyof(T)|null,
         foreignKey:keyof(T),
-        endpoint?:string)
+        endpoint?:string,
+        ttl?:number,
+        clearCache?:boolean,
+        signal?:AbortSignal|null)
         :Promise<TRef|null>
     {
-
-        if(!property){
-            const fk=foreignKey as string;
-            if(fk.endsWith('Id')){
-                property=fk.substr(0,fk.length-2) as any;
-            }else{
-                throw new Error(`Unable to determine the property of collection ${collection} based on foreignKey ${foreignKey}`);
-            }
-        }
-
         return this.getObjRef<T,TRef>(
             collection,
             id,
             refCollection,
-            property as string,
+            (property as string)||toSingleRefProperty(collection,foreignKey as string),
             foreignKey as string,
             false,
-            undefined,
-            endpoint) as Promise<TRef|null>;
+            clearCache,
+            endpoint,
+            ttl,
+            signal) as Promise<TRef|null>;
+    }
+
+    /**
+     * Returns true if the cached object exists and has expired
+     */
+    public async isStaleAsync(collection:string,id:IdParam):Promise<boolean>
+    {
+        const cached=await this.findLocalRecordAsync(collection,id);
+        return cached?isExpired(cached):false;
+    }
+
+    /**
+     * Returns true if the cached ref record loaded by getObjRefCollection or getObjRefSingle
+     * exists and has expired
+     * @param property The ref property. Can be null for single refs, see getObjRefSingle
+     */
+    public isObjRefStaleAsync(collection:string,id:IdParam,property:string|null,foreignKey:string):Promise<boolean>
+    {
+        return this.isStaleAsync(toRefKey(collection,property||toSingleRefProperty(collection,foreignKey)),id);
     }
 
     private async getObjRef<T,TRef>(
@@ -693,103 +2163,241 @@ export default class ClientDb
         foreignKey:string,
         isCollection:boolean,
         clearCache?:boolean,
-        endpoint?:string)
+        endpoint?:string,
+        ttl?:number,
+        signal?:AbortSignal|null)
         :Promise<TRef|TRef[]|null>
     {
-        return this.syncAsync<TRef|TRef[]|null>(
-        ['getObjRef',collection,id,refCollection,property,foreignKey,isCollection],
-        async ()=>{
+        const deps=['getObjRef',collection,id,refCollection,property,foreignKey,isCollection];
+        return this.syncAsync<TRef|TRef[]|null>(deps,async requestSignal=>{
 
             if(id===null || id===undefined){
                 return null;
             }
 
-            const refFlag=`${collection}:REF:${property}`;
-
-            const cached=clearCache?null:await this.findLocalRecordAsync(refFlag,id);
-            if(cached && !isExpired(cached)){
-                const val=
-                    isCollection?
-                    await this.findLocalRefCollectionAsync(refCollection,collection,foreignKey as string,id,cached.obj):
-                    await this.findLocalRefSingleAsync(collection,refCollection,foreignKey as string,id,cached.obj);
-                if(val){
-                    return val;
+            const refFlag=toRefKey(collection,property);
+
+            let cached=clearCache?null:await this.findLocalRecordAsync(refFlag,id);
+            let val:any=null;
+            if(cached){
+                const stale=mustRevalidate(cached);
+                const swr=this.isStaleWhileRevalidate(refCollection);
+                if(!stale || swr || hasValidators(cached) || this.config.offlineFallback){
+                    val=
+                        isCollection?
+                        await this.findLocalRefCollectionAsync(refCollection,collection,foreignKey as string,id,cached.obj):
+                        await this.findLocalRefSingleAsync(collection,refCollection,foreignKey as string,id,cached.obj);
+                    if(val){
+                        if(!stale){
+                            return val;
+                        }
+                        if(swr){
+                            const record=cached;
+                            const local=val;
+                            this.revalidate(deps,()=>this.fetchObjRefAsync<TRef>(
+                                collection,id,refCollection,property,isCollection,endpoint,ttl,record,local));
+                            return val;
+                        }
+                    }else{
+                        // if no ary the items do not match and need refreshed
+                        await this.deleteAsync(refFlag,id);
+                        cached=null;
+                    }
                 }
-                // if no ary the items do not match and need refreshed
-                await this.deleteAsync(refFlag,id);
             }
 
-            const objResult=await this.http.getAsync<TRef[]|TRef>(endpoint||this.getEndPoint(collection,id,property));
+            return await this.fetchWithFallbackAsync(async ()=>{
+                const revalidating=this.getRevalidation<TRef|TRef[]|null>(deps);
+                if(revalidating){
+                    return await revalidating;
+                }
 
-            if(!objResult){
-                return null;
-            }
+                return await this.fetchObjRefAsync<TRef>(
+                    collection,id,refCollection,property,isCollection,endpoint,ttl,cached,val,requestSignal);
+            },val,requestSignal);
+        },signal);
+    }
 
-            const isAry=Array.isArray(objResult);
-            if(isAry && !isCollection){
-                throw new Error('Mismatch isCollection');
-            }
+    /**
+     * @param cached The cached ref record. Only used for conditional requests
+     * @param local The locally resolved ref objects. Returned if the data source reports no changes
+     */
+    private async fetchObjRefAsync<TRef>(
+        collection:string,
+        id:string|number,
+        refCollection:string,
+        property:string,
+        isCollection:boolean,
+        endpoint?:string,
+        ttl?:number,
+        cached?:DbMemRecord|null,
+        local?:any,
+        signal?:AbortSignal|null)
+        :Promise<TRef|TRef[]|null>
+    {
+        const refFlag=toRefKey(collection,property);
 
-            const records:DbMemRecord[]=isAry?
-                (objResult as TRef[]).map<DbMemRecord>(obj=>({
-                    expires:this.getExpires(),
-                    collection:refCollection,
-                    refCollection:null,
-                    objId:this.getPrimaryKey(refCollection,obj),
-                    obj:obj||null
-                }))
-            :
-                [{
-                    expires:this.getExpires(),
-                    collection:refCollection,
-                    refCollection:null,
-                    objId:this.getPrimaryKey(refCollection,objResult),
-                    obj:objResult||null
-                }]
+        const result=await this.httpGetAsync<TRef[]|TRef>(
+            endpoint||this.getEndPoint(collection,id,property),local?cached:null,signal);
+        const expires=this.getExpires(refCollection,ttl??result.ttl);
 
-            const collectionRef:DbRecordRef={
-                ids:isAry?(objResult as TRef[]).map(o=>this.getPrimaryKey(refCollection,o)):undefined,
-                id:!isAry?this.getPrimaryKey(refCollection,objResult):undefined
-            }
+        if(result.notModified && cached && local){
+            const ref=cached.obj as DbRecordRef;
+            await this.extendRecordsAsync(refCollection,ref.ids||(ref.id?[ref.id]:[]),expires);
+            await this.extendRecordsAsync(refFlag,[cached.objId],expires);
+            return local;
+        }
 
-            records.push({
-                expires:this.getExpires(),
-                collection:refFlag,
-                refCollection:collection,
-                objId:id.toString(),
-                obj:collectionRef
-            });
+        const objResult=result.obj;
+
+        if(!objResult){
+            return null;
+        }
+
+        const isAry=Array.isArray(objResult);
+        if(isAry && !isCollection){
+            throw new Error('Mismatch isCollection');
+        }
 
-            await this.setRecordsAsync('set',records)
+        const records:DbMemRecord[]=isAry?
+            (objResult as TRef[]).map<DbMemRecord>(obj=>({
+                expires,
+                collection:refCollection,
+                refCollection:null,
+                objId:this.getPrimaryKey(refCollection,obj),
+                obj:obj||null
+            }))
+        :
+            [{
+                expires,
+                collection:refCollection,
+                refCollection:null,
+                objId:this.getPrimaryKey(refCollection,objResult),
+                obj:objResult||null
+            }]
+
+        const collectionRef:DbRecordRef={
+            ids:isAry?(objResult as TRef[]).map(o=>this.getPrimaryKey(refCollection,o)):undefined,
+            id:!isAry?this.getPrimaryKey(refCollection,objResult):undefined,
+            collection:refCollection
+        }
 
-            return objResult||null;
+        records.push({
+            expires,
+            collection:refFlag,
+            refCollection:collection,
+            objId:id.toString(),
+            obj:collectionRef,
+            etag:result.etag,
+            lastModified:result.lastModified,
+            noCache:result.noCache
         });
+
+        if(!result.noStore){
+            await this.setRecordsAsync('set',records);
+        }
+
+        return objResult||null;
     }
 
 
-    private readonly syncMap:{[key:string]:Promise<any>}={}
-    private async syncAsync<T>(deps:any[],getAsync:()=>Promise<T>):Promise<T>
+    private readonly syncMap:{[key:string]:SyncRequest}={}
+
+    /**
+     * Merges concurrent calls with the same deps into a single call of getAsync. The signal passed
+     * to getAsync is aborted once all callers have aborted their signal. Callers without a signal
+     * wait until getAsync completes.
+     */
+    private syncAsync<T>(deps:any[],getAsync:(signal:AbortSignal)=>Promise<T>,signal?:AbortSignal|null):Promise<T>
     {
-        let key='';
-        for(const k of deps){
-            key+='::'+k;
+        if(signal?.aborted){
+            return Promise.reject(toAbortError(signal));
+        }
+
+        const key=toSyncKey(deps);
+        let request=this.syncMap[key];
+        if(!request){
+            const controller=new AbortController();
+            const r:SyncRequest={
+                promise:getAsync(controller.signal),
+                controller,
+                waiting:0,
+                held:false
+            };
+            const remove=()=>{
+                if(this.syncMap[key]===r){
+                    delete this.syncMap[key];
+                }
+            }
+            r.promise.then(remove,remove);
+            this.syncMap[key]=r;
+            request=r;
         }
-        let p=this.syncMap[key];
-        if(p as any){
-            return await p;
+
+        const r=request;
+        if(!signal){
+            r.held=true;
+            return r.promise;
         }
 
-        try{
-            p=getAsync();
-            this.syncMap[key]=p;
-            return await p;
-        }finally{
+        r.waiting++;
+        return new Promise<T>((resolve,reject)=>{
+            const onAbort=()=>{
+                r.waiting--;
+                if(!r.waiting && !r.held){
+                    if(this.syncMap[key]===r){
+                        delete this.syncMap[key];
+                    }
+                    r.controller.abort();
+                }
+                reject(toAbortError(signal));
+            }
+            signal.addEventListener('abort',onAbort);
+            r.promise.then(value=>{
+                signal.removeEventListener('abort',onAbort);
+                resolve(value);
+            },err=>{
+                signal.removeEventListener('abort',onAbort);
+                reject(err);
+            });
+        });
+    }
 
-            delete this.syncMap[key];
+    /**
+     * Refreshes stale data in the background. Concurrent refreshes of the same data are merged.
+     */
+    private revalidate(deps:any[],revalidateAsync:()=>Promise<any>)
+    {
+        this.syncAsync(['revalidate',...deps],revalidateAsync).catch(err=>{
+            console.warn('ClientDb background revalidation failed',deps,err);
+        });
+    }
 
+    /**
+     * Returns the result of fetchAsync. If fetchAsync fails and offlineFallback is enabled the
+     * expired cached value is returned instead.
+     */
+    private async fetchWithFallbackAsync<T>(
+        fetchAsync:()=>Promise<T>,cachedValue:T|null|undefined,signal?:AbortSignal|null):Promise<T>
+    {
+        try{
+            return await fetchAsync();
+        }catch(ex){
+            if(this.config.offlineFallback && cachedValue && !signal?.aborted){
+                return cachedValue;
+            }
+            throw ex;
         }
     }
 
+    /**
+     * Returns the promise of an in progress background refresh
+     */
+    private getRevalidation<T>(deps:any[]):Promise<T>|undefined
+    {
+        return this.syncMap[toSyncKey(['revalidate',...deps])]?.promise;
+    }
+
     private async findLocalCollectionAsync(
         collection:string,sourceCollection:string,id:string,recordRef:DbRecordRef):Promise<any[]|null>
     {
@@ -807,9 +2415,9 @@ export default class ClientDb
         const map:{[key:string]:any}={};
         const ids:string[]=[...recordRef.ids];
         let count=0;
-        for(const e in this.memCache){
-            const r=this.memCache[e];
-            if(r.collection===sourceCollection && recordRef.ids.includes(r.objId)){
+        for(const objId of recordRef.ids){
+            const r=this.memCache.get(toKey(sourceCollection,objId));
+            if(r){
                 if(map[r.objId]){
                     throw new Error('Duplicate mem cached key found. record.objId='+r.objId);
                 }
@@ -824,30 +2432,13 @@ export default class ClientDb
 
         if(ids.length){
 
-            const r=await this.selectAsync(
-                'SELECT * FROM "objs" WHERE "collection" = ? AND "objId" IN ('+ids.join(',')+')',
-                [sourceCollection]
-            )
-
-            if(r.rows?.length){
-                const records:DbMemRecord[]=[];
-                for(let i=0;i<r.rows.length;i++){
-                    const item=r.rows.item(i) as DbRecord;
-                    const record={
-                        expires:item.expires,
-                        collection:item.collection,
-                        refCollection:null,
-                        objId:item.objId,
-                        obj:JSON.parse(item.obj)
-                    }
-                    records.push(record);
-                    if(map[record.objId]){
-                        throw new Error('Duplicate sql db key found. record.objId='+record.objId);
-                    }
-                    map[item.objId]=record.obj;
-                    count++;
+            const rows=await this.engine.getRecordsAsync(sourceCollection,ids);
+            for(const item of rows){
+                if(map[item.objId]){
+                    throw new Error('Duplicate sql db key found. record.objId='+item.objId);
                 }
-                await this.setRecordsAsync('set',records);
+                map[item.objId]=this.cacheRow(item).obj;
+                count++;
             }
         }
 
@@ -889,12 +2480,12 @@ export default class ClientDb
         const map:{[key:string]:any}={};
         const ids:string[]=[];
         let count=0;
-        for(const e in this.memCache){
-            const r=this.memCache[e];
-            if(r.collection===collection && r.obj?.[foreignKey]===id){
+        for(const r of this.memCache.getCollection(collection)){
+            if(r.obj?.[foreignKey]===id){
                 if(map[r.objId]){
                     throw new Error('Duplicate mem cached key found. record.objId='+r.objId);
                 }
+                this.memCache.touch(toKey(collection,r.objId));
                 map[r.objId]=r.obj;
                 if(!loaded){
                     ids.push(r.objId);
@@ -907,32 +2498,13 @@ export default class ClientDb
 
             if(count!==recordRef.ids.length){
 
-                const r=await this.selectAsync(
-                    'SELECT * FROM "objs" WHERE "collection" = ?'+
-                    (ids.length?' AND "objId" NOT IN ('+ids.join(',')+')':'')+
-                    ` AND json_extract("obj",'$.${foreignKey}') = ?`,
-                    [collection,id]
-                )
-
-                if(r.rows?.length){
-                    const records:DbMemRecord[]=[];
-                    for(let i=0;i<r.rows.length;i++){
-                        const item=r.rows.item(i) as DbRecord;
-                        const record={
-                            expires:item.expires,
-                            collection:item.collection,
-                            refCollection:null,
-                            objId:item.objId,
-                            obj:JSON.parse(item.obj)
-                        }
-                        records.push(record);
-                        if(map[record.objId]){
-                            throw new Error('Duplicate sql db key found. record.objId='+record.objId);
-                        }
-                        map[item.objId]=record.obj;
-                        count++;
+                const rows=await this.engine.findRecordsAsync(collection,foreignKey as string,id,ids);
+                for(const item of rows){
+                    if(map[item.objId]){
+                        throw new Error('Duplicate sql db key found. record.objId='+item.objId);
                     }
-                    await this.setRecordsAsync('set',records);
+                    map[item.objId]=this.cacheRow(item).obj;
+                    count++;
                 }
             }
 
@@ -940,8 +2512,9 @@ export default class ClientDb
                 collection,
                 refCollection,
                 id:id?.toString(),
-                isCollection:true
-
+                isCollection:true,
+                foreignKey,
+                objIds:new Set(Object.keys(map))
             };
         }
 
@@ -989,8 +2562,117 @@ export default class ClientDb
 
 }
 
+/**
+ * Collection of the page records of a paged list
+ */
+const toPagedKey=(cacheKey:string)=>'PAGED:'+cacheKey;
+
+/**
+ * Collection of the records storing the ids of ref objects
+ */
+const toRefKey=(collection:string,property:string)=>`${collection}:REF:${property}`;
+
+/**
+ * Returns the property of a single ref based on its foreign key. userId -> user
+ */
+const toSingleRefProperty=(collection:string,foreignKey:string):string=>{
+    if(foreignKey.endsWith('Id')){
+        return foreignKey.substr(0,foreignKey.length-2);
+    }
+    throw new Error(`Unable to determine the property of collection ${collection} based on foreignKey ${foreignKey}`);
+}
+
+const toAbortError=(signal:AbortSignal):any=>signal.reason??new Error('The request was aborted');
+
+/**
+ * Returns the collection of the objects a swept record holds. Ref, mapped and page records return
+ * the collection of the objects they reference
+ */
+const getObjCollection=(k:DbExpiredRecordKey):string=>{
+    if(!k.refCollection && !k.collection.startsWith('PAGED:') && !k.collection.includes(':REF:')){
+        return k.collection;
+    }
+    const ref:DbRecordRef|null=k.obj?JSON.parse(k.obj):null;
+    return ref?.collection||k.collection;
+}
+
 const isExpired=(r:DbMemRecord):boolean=>r.expires>0 && r.expires<new Date().getTime();
 
+/**
+ * Returns true if a cached record has to be revalidated before it is used
+ */
+const mustRevalidate=(r:DbMemRecord):boolean=>isExpired(r) || r.noCache===true;
+
+const hasValidators=(r:DbMemRecord):boolean=>(r.etag || r.lastModified)?true:false;
+
+const toMemRecord=(row:DbRecord):DbMemRecord=>({
+    expires:row.expires,
+    collection:row.collection,
+    refCollection:row.refCollection||null,
+    objId:String(row.objId),
+    obj:JSON.parse(row.obj),
+    etag:row.etag||null,
+    lastModified:row.lastModified||null,
+    noCache:row.noCache?true:false
+});
+
+interface CacheControl
+{
+    /**
+     * max-age in minutes
+     */
+    ttl?:number;
+    noCache:boolean;
+    noStore:boolean;
+}
+
+/**
+ * Parses a Cache-Control header. no-cache does not change the ttl, the response is stored and
+ * revalidated each time it is used. no-store responses are not stored.
+ */
+const parseCacheControl=(cacheControl:string|null|undefined):CacheControl=>{
+    const r:CacheControl={noCache:false,noStore:false};
+    if(!cacheControl){
+        return r;
+    }
+    for(const part of cacheControl.toLowerCase().split(',')){
+        const [name,value]=part.trim().split('=');
+        if(name==='no-cache'){
+            r.noCache=true;
+        }else if(name==='no-store'){
+            r.noStore=true;
+        }else if(name==='max-age'){
+            const seconds=Number(value);
+            if(!isNaN(seconds)){
+                r.ttl=seconds/60;
+            }
+        }
+    }
+    return r;
+}
+
+/**
+ * Returns the top level properties of next that differ from prev. Removed properties are
+ * returned as null.
+ */
+const getChanges=(prev:any,next:any):any=>{
+    const changes:any={};
+    for(const e in next){
+        if(next[e]!==prev?.[e]){
+            changes[e]=next[e];
+        }
+    }
+    for(const e in prev){
+        if(!(e in next)){
+            changes[e]=null;
+        }
+    }
+    return changes;
+}
+
+const getBackoffDelay=(attempt:number,baseMs:number,maxMs:number):number=>
+    Math.min(baseMs*Math.pow(2,Math.max(0,attempt-1)),maxMs);
+
 export const ClientDbContext=React.createContext<ClientDb|null>(null);
 
 
@@ -1044,6 +2726,198 @@ class Lock
     }
 }
 
+interface MemCacheEntry
+{
+    record:DbMemRecord;
+    size:number;
+}
+
+/**
+ * In memory cache of records ordered from least to most recently used. Once the max entry count
+ * or max size is exceeded the least recently used records are evicted. Retained records are
+ * never evicted.
+ */
+class MemCache
+{
+    private readonly _entries=new Map<string,MemCacheEntry>();
+
+    private readonly collections:{[collection:string]:Set<string>}={};
+
+    private readonly retained:{[key:string]:number}={};
+
+    private size=0;
+
+    private readonly maxEntries:number;
+
+    private readonly maxBytes:number;
+
+    private readonly onEvict:(record:DbMemRecord)=>void;
+
+    constructor(maxEntries:number,maxBytes:number,onEvict:(record:DbMemRecord)=>void)
+    {
+        this.maxEntries=maxEntries;
+        this.maxBytes=maxBytes;
+        this.onEvict=onEvict;
+    }
+
+    /**
+     * Returns a record and marks it as most recently used
+     */
+    public get(key:string):DbMemRecord|undefined
+    {
+        const entry=this._entries.get(key);
+        if(!entry){
+            return undefined;
+        }
+        this._entries.delete(key);
+        this._entries.set(key,entry);
+        return entry.record;
+    }
+
+    /**
+     * Returns a record without changing its position in the cache
+     */
+    public peek(key:string):DbMemRecord|undefined
+    {
+        return this._entries.get(key)?.record;
+    }
+
+    public touch(key:string)
+    {
+        this.get(key);
+    }
+
+    /**
+     * @param size Approximate size of the record. If not defined the size of the current entry
+     *             is kept or the size is calculated.
+     */
+    public set(key:string,record:DbMemRecord,size?:number)
+    {
+        const current=this._entries.get(key);
+        if(size===undefined){
+            size=current?current.size:(JSON.stringify(record.obj)?.length||0);
+        }
+        if(current){
+            this.removeEntry(key,current);
+        }
+        this._entries.set(key,{record,size});
+        this.size+=size;
+        let keys=this.collections[record.collection];
+        if(!keys){
+            keys=new Set<string>();
+            this.collections[record.collection]=keys;
+        }
+        keys.add(key);
+        this.evict();
+    }
+
+    public delete(key:string)
+    {
+        const entry=this._entries.get(key);
+        if(entry){
+            this.removeEntry(key,entry);
+        }
+    }
+
+    public clear()
+    {
+        this._entries.clear();
+        for(const e in this.collections){
+            delete this.collections[e];
+        }
+        this.size=0;
+    }
+
+    /**
+     * Returns a snapshot of all cached entries
+     */
+    public entries():[string,DbMemRecord][]
+    {
+        const list:[string,DbMemRecord][]=[];
+        this._entries.forEach((entry,key)=>list.push([key,entry.record]));
+        return list;
+    }
+
+    /**
+     * Returns a snapshot of all cached records of a collection
+     */
+    public getCollection(collection:string):DbMemRecord[]
+    {
+        const list:DbMemRecord[]=[];
+        this.collections[collection]?.forEach(key=>{
+            const entry=this._entries.get(key);
+            if(entry){
+                list.push(entry.record);
+            }
+        });
+        return list;
+    }
+
+    public isRetained(key:string):boolean
+    {
+        return this.retained[key]?true:false;
+    }
+
+    public retain(key:string)
+    {
+        this.retained[key]=(this.retained[key]||0)+1;
+    }
+
+    public release(key:string)
+    {
+        const count=(this.retained[key]||0)-1;
+        if(count>0){
+            this.retained[key]=count;
+        }else{
+            delete this.retained[key];
+            this.evict();
+        }
+    }
+
+    private removeEntry(key:string,entry:MemCacheEntry)
+    {
+        this._entries.delete(key);
+        this.size-=entry.size;
+        const keys=this.collections[entry.record.collection];
+        if(keys){
+            keys.delete(key);
+            if(!keys.size){
+                delete this.collections[entry.record.collection];
+            }
+        }
+    }
+
+    private isOverBudget():boolean
+    {
+        return (
+            (this.maxEntries>0 && this._entries.size>this.maxEntries) ||
+            (this.maxBytes>0 && this.size>this.maxBytes)
+        );
+    }
+
+    private evict()
+    {
+        if(!this.isOverBudget()){
+            return;
+        }
+        const evicted:DbMemRecord[]=[];
+        const iterator=this._entries.entries();
+        let next=iterator.next();
+        while(!next.done && this.isOverBudget()){
+            const [key,entry]=next.value;
+            next=iterator.next();
+            if(this.retained[key]){
+                continue;
+            }
+            this.removeEntry(key,entry);
+            evicted.push(entry.record);
+        }
+        for(const record of evicted){
+            this.onEvict(record);
+        }
+    }
+}
+
 export interface IDomain
 {
     setDb:(db:ClientDb)=>void;
@@ -1053,9 +2927,9 @@ export class ClientDbDomain<T extends IDomain> extends ClientDb
 {
     public readonly domain:T;
 
-    public constructor(http:IHttp,config:DbConfig|null,openDatabase:DatabaseAdapter,domain:T)
+    public constructor(http:IHttp,config:DbConfig|null,storage:DatabaseAdapter|DbStorageEngine,domain:T)
     {
-        super(http,config,openDatabase);
+        super(http,config,storage);
         this.domain=domain;
         domain.setDb(this);
     }
@@ -0,0 +1,908 @@
+import { DatabaseAdapter, DbConfig, DbExpiredRecordKey, DbMutationRecord, DbQuery, DbRecord, DbRecordKey, DbRecordSize, DbStorageEngine, DbStorageStats, PendingMutation } from "./db-types";
+import { compileQuery, getPathValue, matchesCondition, queryRecords, toJsonExtract } from "./db-query";
+import { ResultSet, ResultSetError, SQLError, SQLResultSet, SQLTransaction, WebSQLDatabase } from "./sqlite-types";
+
+interface SchemaMigration
+{
+    version:number;
+    name:string;
+    sql:string[];
+}
+
+/**
+ * Ordered list of schema migrations. Each migration runs once inside of a transaction and the
+ * version of the last applied migration is stored in the schemaVersion setting. Migrations must
+ * never be changed once released, add a new migration instead.
+ */
+const schemaMigrations:SchemaMigration[]=[
+    {
+        version:1,
+        name:'create objs',
+        sql:[`
+            CREATE TABLE IF NOT EXISTS "objs"(
+                "expires" INTEGER NOT NULL,
+                "collection" VARCHAR(150) NOT NULL,
+                "refCollection" VARCHAR(100) NULL,
+                "objId" INTEGER NOT NULL,
+                "obj" TEXT
+            )
+        `,`
+            CREATE UNIQUE INDEX IF NOT EXISTS "objsIndex" ON "objs" ( "objId", "collection")
+        `]
+    },
+    {
+        version:2,
+        name:'http validators',
+        sql:[
+            'ALTER TABLE "objs" ADD COLUMN "etag" TEXT NULL',
+            'ALTER TABLE "objs" ADD COLUMN "lastModified" TEXT NULL',
+            'ALTER TABLE "objs" ADD COLUMN "noCache" INTEGER NOT NULL DEFAULT 0'
+        ]
+    },
+    {
+        version:3,
+        name:'updated timestamp',
+        sql:[
+            'ALTER TABLE "objs" ADD COLUMN "updated" INTEGER NOT NULL DEFAULT 0',
+            'CREATE INDEX IF NOT EXISTS "objsUpdatedIndex" ON "objs" ( "updated" )'
+        ]
+    },
+    {
+        version:4,
+        name:'create outbox',
+        // The outbox is not part of the cache and is never dropped or cleared
+        sql:[`
+            CREATE TABLE IF NOT EXISTS "outbox"(
+                "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+                "type" VARCHAR(20) NOT NULL,
+                "collection" VARCHAR(150) NOT NULL,
+                "objId" VARCHAR(150) NULL,
+                "data" TEXT NULL,
+                "endpoint" TEXT NULL,
+                "created" INTEGER NOT NULL,
+                "attempts" INTEGER NOT NULL,
+                "nextAttempt" INTEGER NOT NULL,
+                "lastError" TEXT NULL,
+                "failed" INTEGER NOT NULL DEFAULT 0
+            )
+        `]
+    },
+    {
+        version:5,
+        name:'create objValues',
+        // Stores the values of indexed paths when the JSON1 extension is not available. The
+        // value column has no type affinity so values compare the same as json_extract results.
+        sql:[`
+            CREATE TABLE IF NOT EXISTS "objValues"(
+                "collection" VARCHAR(150) NOT NULL,
+                "objId" INTEGER NOT NULL,
+                "path" VARCHAR(150) NOT NULL,
+                "value"
+            )
+        `,
+            'CREATE INDEX IF NOT EXISTS "objValuesIndex" ON "objValues" ( "collection", "path", "value" )',
+            'CREATE INDEX IF NOT EXISTS "objValuesObjIndex" ON "objValues" ( "objId", "collection" )'
+        ]
+    }
+];
+
+/**
+ * Triggers removing the objValues of updated and deleted records. Only created when the JSON1
+ * extension is not available.
+ */
+const valueTriggers=[`
+    CREATE TRIGGER IF NOT EXISTS "objsDeleteValues" AFTER DELETE ON "objs" BEGIN
+        DELETE FROM "objValues" WHERE "objId" = old."objId" AND "collection" = old."collection";
+    END
+`,`
+    CREATE TRIGGER IF NOT EXISTS "objsUpdateValues" AFTER UPDATE OF "obj" ON "objs" BEGIN
+        DELETE FROM "objValues" WHERE "objId" = old."objId" AND "collection" = old."collection";
+    END
+`];
+
+/**
+ * Maps the dbSchemaVersion setting used before schema migrations to the matching migration version
+ */
+const legacySchemaVersions:{[version:string]:number}={
+    '3':1
+}
+
+/**
+ * Number of records written per transaction
+ */
+const writeBatchSize=500;
+
+/**
+ * Number of rows per insert statement. Keeps the number of bound parameters under the default
+ * SQLite limit of 999
+ */
+const maxRowsPerInsert=100;
+
+/**
+ * Prefix of the names of indexes managed using config.jsonIndexes
+ */
+const jsonIndexPrefix='objs_json_';
+
+const toJsonIndexName=(path:string)=>
+    jsonIndexPrefix+path.replace(/[^a-zA-Z0-9]/g,c=>'_'+c.charCodeAt(0).toString(16)+'_');
+
+/**
+ * Name of the setting storing the paths added to objValues by foreign key lookups
+ */
+const valuePathsSetting='objValuePaths';
+
+/**
+ * Converts a value to the value stored in objValues. Returns undefined for values json_extract
+ * would not match.
+ */
+const toStoredValue=(value:any):any=>{
+    if(value===null || value===undefined || typeof value === 'object'){
+        return undefined;
+    }
+    return typeof value === 'boolean'?(value?1:0):value;
+}
+
+/**
+ * Stores records in a SQLite database accessed using a WebSQL style DatabaseAdapter
+ */
+export default class SqliteStorageEngine implements DbStorageEngine
+{
+
+    private readonly openDatabase:DatabaseAdapter;
+
+    private __db:WebSQLDatabase|null=null;
+    private get db():WebSQLDatabase{
+        if(!this.__db){
+            throw new Error('SqliteStorageEngine not initialized')
+        }
+        return this.__db;
+    }
+
+    /**
+     * False if the database does not include the JSON1 extension. When false the values of
+     * indexed and foreign key paths are stored in the objValues table and queries are evaluated
+     * in JavaScript.
+     */
+    private json1=true;
+
+    /**
+     * False if the SQLite version is older than 3.24 which added INSERT ... ON CONFLICT DO UPDATE.
+     * When false records are written using an UPDATE followed by an INSERT if no row was updated.
+     */
+    private upsert=true;
+
+    /**
+     * Paths stored in objValues by collection. Only used without JSON1
+     */
+    private valuePaths:{[collection:string]:string[]}={};
+
+    /**
+     * Paths added to valuePaths by foreign key lookups
+     */
+    private lookupPaths:{[collection:string]:string[]}={};
+
+    public constructor(openDatabase:DatabaseAdapter)
+    {
+        this.openDatabase=openDatabase;
+    }
+
+    /**
+     * Returns true if json_extract can be used
+     */
+    public get hasJson1():boolean
+    {
+        return this.json1;
+    }
+
+    public async initAsync(config:Required<DbConfig>)
+    {
+        this.__db=this.openDatabase(config);
+
+        await this.execAsync(`
+            CREATE TABLE IF NOT EXISTS "settings"(
+                "name" VARCHAR(50) NOT NULL,
+                "value" TEXT NOT NULL
+            )
+        `);
+
+        const committed=await this.getSettingAsync('settingsCommitted');
+        if(committed!=='1'){
+            await this.execAsync('DELETE FROM "settings"');
+        }
+
+        await this.runSchemaMigrationsAsync();
+
+        this.json1=await this.detectJson1Async();
+        this.upsert=await this.detectUpsertAsync();
+        await this.updateValueTriggersAsync();
+
+        if(this.json1){
+            await this.updateJsonIndexesAsync(config.jsonIndexes);
+        }else{
+            console.debug('SQLite JSON1 extension not available. Using objValues for indexed paths');
+            await this.loadValuePathsAsync(config.jsonIndexes);
+        }
+
+        if(committed!=='1'){
+            await this.setSettingAsync('settingsCommitted','1');
+        }
+    }
+
+    private async runSchemaMigrationsAsync()
+    {
+        const latest=schemaMigrations[schemaMigrations.length-1].version;
+
+        let version=Number(await this.getSettingAsync('schemaVersion'))||0;
+        if(!version){
+            const legacy=await this.getSettingAsync('dbSchemaVersion');
+            version=legacySchemaVersions[legacy||'']||0;
+        }
+
+        if(version>latest){
+            console.debug(`ClientDb schemaVersion ${version} is newer than ${latest}. Resetting objs`);
+            version=0;
+        }
+
+        if(!version){
+            // unknown state, the objs table is only a cache and can be rebuilt
+            await this.execAsync('DROP TABLE IF EXISTS "objs"');
+            await this.execAsync('DROP TABLE IF EXISTS "objValues"');
+        }
+
+        for(const migration of schemaMigrations){
+            if(migration.version<=version){
+                continue;
+            }
+            console.debug(`Running ClientDb schema migration ${migration.version} - ${migration.name}`);
+            await this.execAsync(tx=>{
+                for(const sql of migration.sql){
+                    tx.executeSql(sql);
+                }
+                setSetting(tx,'schemaVersion',migration.version.toString());
+            });
+            version=migration.version;
+        }
+    }
+
+    /**
+     * Creates the indexes defined by config.jsonIndexes and drops managed indexes that are no
+     * longer configured. Each index covers the collection column and the extracted JSON value so
+     * a single index is shared by all collections that index the same path.
+     */
+    private async updateJsonIndexesAsync(jsonIndexes:{[collection:string]:string[]}|null)
+    {
+        const paths:{[name:string]:string}={};
+        if(jsonIndexes){
+            for(const collection in jsonIndexes){
+                for(const path of jsonIndexes[collection]){
+                    paths[toJsonIndexName(path)]=path;
+                }
+            }
+        }
+
+        const r=await this.selectAsync(
+            `SELECT "name" FROM "sqlite_master" WHERE "type" = 'index' AND "tbl_name" = 'objs' AND "name" LIKE ?`,
+            [jsonIndexPrefix+'%']);
+        const existing:{[name:string]:boolean}={};
+        const drop:string[]=[];
+        for(let i=0;i<(r.rows?.length||0);i++){
+            const name:string=r.rows.item(i).name;
+            if(!name.startsWith(jsonIndexPrefix)){
+                // LIKE treats _ as a wildcard
+                continue;
+            }
+            existing[name]=true;
+            if(!paths[name]){
+                drop.push(name);
+            }
+        }
+
+        const create:string[]=[];
+        for(const name in paths){
+            if(!existing[name]){
+                create.push(name);
+            }
+        }
+
+        if(!drop.length && !create.length){
+            return;
+        }
+
+        console.debug('Updating ClientDb JSON indexes',{create:create.map(n=>paths[n]),drop});
+
+        await this.execAsync(tx=>{
+            for(const name of drop){
+                tx.executeSql(`DROP INDEX IF EXISTS "${name}"`);
+            }
+            for(const name of create){
+                tx.executeSql(
+                    `CREATE INDEX IF NOT EXISTS "${name}" ON "objs" ( "collection", ${toJsonExtract(paths[name])} )`);
+            }
+        });
+    }
+
+    private async detectJson1Async():Promise<boolean>
+    {
+        try{
+            const r=await this.selectAsync(`SELECT json_extract('{"a":1}','$.a') as "value"`);
+            return r.rows?.item(0)?.value===1;
+        }catch{
+            return false;
+        }
+    }
+
+    /**
+     * Creates the objValues triggers when JSON1 is not available. With JSON1 the triggers are
+     * dropped and objValues is cleared since it is no longer kept up to date.
+     */
+    private async updateValueTriggersAsync()
+    {
+        if(this.json1){
+            await this.execAsync([
+                'DROP TRIGGER IF EXISTS "objsDeleteValues"',
+                'DROP TRIGGER IF EXISTS "objsUpdateValues"',
+                'DELETE FROM "objValues"'
+            ]);
+        }else{
+            await this.execAsync(valueTriggers);
+        }
+    }
+
+    private async detectUpsertAsync():Promise<boolean>
+    {
+        try{
+            const r=await this.selectAsync('SELECT sqlite_version() as "version"');
+            const [major,minor]=String(r.rows?.item(0)?.version).split('.').map(Number);
+            return major>3 || (major===3 && minor>=24);
+        }catch{
+            return false;
+        }
+    }
+
+    /**
+     * Loads the paths stored in objValues and populates values of paths that were not stored
+     * before
+     */
+    private async loadValuePathsAsync(jsonIndexes:{[collection:string]:string[]}|null)
+    {
+        const json=await this.getSettingAsync(valuePathsSetting);
+        this.lookupPaths=json?JSON.parse(json):{};
+
+        const paths:{[collection:string]:string[]}={};
+        const add=(source:{[collection:string]:string[]}|null)=>{
+            if(!source){
+                return;
+            }
+            for(const collection in source){
+                const list=paths[collection]||(paths[collection]=[]);
+                for(const path of source[collection]){
+                    if(!list.includes(path)){
+                        list.push(path);
+                    }
+                }
+            }
+        }
+        add(this.lookupPaths);
+        add(jsonIndexes);
+
+        const r=await this.selectAsync('SELECT DISTINCT "collection", "path" FROM "objValues"');
+        const stored=toRows<{collection:string,path:string}>(r);
+
+        await this.execAsync(tx=>{
+            for(const row of stored){
+                if(!paths[row.collection]?.includes(row.path)){
+                    tx.executeSql(
+                        'DELETE FROM "objValues" WHERE "collection" = ? AND "path" = ?',
+                        [row.collection,row.path]);
+                }
+            }
+        });
+
+        this.valuePaths={};
+        for(const collection in paths){
+            for(const path of paths[collection]){
+                if(!stored.some(s=>s.collection===collection && s.path===path)){
+                    await this.addValuePathAsync(collection,path);
+                }else{
+                    (this.valuePaths[collection]||(this.valuePaths[collection]=[])).push(path);
+                }
+            }
+        }
+    }
+
+    /**
+     * Starts storing a path of a collection in objValues and populates the values of existing
+     * records
+     */
+    private async addValuePathAsync(collection:string,path:string)
+    {
+        const r=await this.selectAsync(
+            'SELECT "objId", "obj" FROM "objs" WHERE "collection" = ?',
+            [collection]);
+
+        await this.execAsync(tx=>{
+            for(const row of toRows<DbRecord>(r)){
+                insertValue(tx,collection,row.objId,path,row.obj);
+            }
+        });
+
+        (this.valuePaths[collection]||(this.valuePaths[collection]=[])).push(path);
+    }
+
+    /**
+     * Inserts the values of the stored paths of a record. Old values are removed by the
+     * objsUpdateValues and objsDeleteValues triggers.
+     */
+    private insertValues(tx:SQLTransaction,collection:string,objId:string,json:string)
+    {
+        const paths=this.valuePaths[collection];
+        if(!paths){
+            return;
+        }
+        let obj:any=undefined;
+        for(const path of paths){
+            if(obj===undefined){
+                obj=json?JSON.parse(json):null;
+            }
+            insertValue(tx,collection,objId,path,obj);
+        }
+    }
+
+    public async getSettingAsync(name:string):Promise<string|null>
+    {
+        if(!name){
+            return null;
+        }
+        const r=await this.selectAsync(
+            'SELECT "value" from "settings" where "name" = ? LIMIT 1',
+            [name]);
+
+        return r.rows?.item(0)?.value||null;
+    }
+
+    public async setSettingAsync(name:string, value:string)
+    {
+        if(!name){
+            return;
+        }
+
+         const r=await this.selectAsync(
+            'SELECT "value" from "settings" where "name" = ? LIMIT 1',
+            [name]);
+
+        if(r.rows?.length){
+            await this.execAsync(
+                'UPDATE "settings" SET "value" = ? WHERE "name" = ?',
+                [value,name]);
+        }else{
+            await this.execAsync(
+                'INSERT INTO "settings" ("name","value") VALUES (?,?)',
+                [name,value]);
+        }
+    }
+
+    public async getRecordAsync(collection:string,objId:string):Promise<DbRecord|null>
+    {
+        const r=await this.selectAsync(
+            'SELECT * FROM "objs" where "objId" = ? AND "collection" = ? LIMIT 1',
+            [objId,collection]);
+
+        return r.rows?.length?(r.rows.item(0)||null):null;
+    }
+
+    public async getRecordsAsync(collection:string,objIds:string[]):Promise<DbRecord[]>
+    {
+        if(!objIds.length){
+            return [];
+        }
+        const r=await this.selectAsync(
+            'SELECT * FROM "objs" WHERE "collection" = ? AND "objId" IN ('+objIds.map(()=>'?').join(',')+')',
+            [collection,...objIds]
+        );
+        return toRows(r);
+    }
+
+    public async findRecordsAsync(collection:string,path:string,value:any,excludeIds:string[]):Promise<DbRecord[]>
+    {
+        if(!this.json1){
+            return await this.findRecordsByValueAsync(collection,path,value,excludeIds);
+        }
+
+        const r=await this.selectAsync(
+            'SELECT * FROM "objs" WHERE "collection" = ?'+
+            (excludeIds.length?' AND "objId" NOT IN ('+excludeIds.map(()=>'?').join(',')+')':'')+
+            ` AND ${toJsonExtract(path)} = ?`,
+            [collection,...excludeIds,value]
+        );
+        return toRows(r);
+    }
+
+    /**
+     * Finds records using objValues. Paths not stored in objValues yet are matched in
+     * JavaScript then added to objValues so following lookups use the index.
+     */
+    private async findRecordsByValueAsync(collection:string,path:string,value:any,excludeIds:string[]):Promise<DbRecord[]>
+    {
+        if(!this.valuePaths[collection]?.includes(path)){
+            const r=await this.selectAsync('SELECT * FROM "objs" WHERE "collection" = ?',[collection]);
+            const rows=toRows<DbRecord>(r).filter(row=>
+                !excludeIds.includes(String(row.objId)) &&
+                matchesCondition(row.obj?JSON.parse(row.obj):null,{path,op:'=',value}));
+
+            await this.addValuePathAsync(collection,path);
+            (this.lookupPaths[collection]||(this.lookupPaths[collection]=[])).push(path);
+            await this.setSettingAsync(valuePathsSetting,JSON.stringify(this.lookupPaths));
+
+            return rows;
+        }
+
+        const r=await this.selectAsync(
+            'SELECT "objs".* FROM "objValues" INNER JOIN "objs" ON '+
+            '"objs"."objId" = "objValues"."objId" AND "objs"."collection" = "objValues"."collection" '+
+            'WHERE "objValues"."collection" = ? AND "objValues"."path" = ? AND "objValues"."value" = ?'+
+            (excludeIds.length?' AND "objValues"."objId" NOT IN ('+excludeIds.map(()=>'?').join(',')+')':''),
+            [collection,path,toStoredValue(value)??null,...excludeIds]
+        );
+        return toRows(r);
+    }
+
+    public async queryRecordsAsync(collection:string,query:DbQuery,now:number):Promise<DbRecord[]>
+    {
+        if(!this.json1){
+            const r=await this.selectAsync(
+                'SELECT * FROM "objs" WHERE "collection" = ? ORDER BY "rowid"',
+                [collection]);
+            return queryRecords(toRows(r),query,now);
+        }
+
+        const {sql,args}=compileQuery(collection,query,now);
+        return toRows(await this.selectAsync(sql,args));
+    }
+
+    /**
+     * Writes records using batched upserts with one transaction per writeBatchSize records.
+     * Without upsert support each record is updated and inserted if it does not exist.
+     */
+    public async putRecordsAsync(records:DbRecord[]):Promise<void>
+    {
+        const rows=records.map(record=>[
+            record.expires,
+            record.collection,
+            record.refCollection||'',
+            record.objId,
+            record.obj,
+            record.etag||null,
+            record.lastModified||null,
+            record.noCache?1:0,
+            record.updated
+        ]);
+
+        for(let b=0;b<rows.length;b+=writeBatchSize){
+            const batch=rows.slice(b,b+writeBatchSize);
+            await this.execAsync(tx=>{
+                if(!this.upsert){
+                    for(const row of batch){
+                        const [expires,collection,,objId,obj,etag,lastModified,noCache,updated]=row;
+                        tx.executeSql(
+                            'UPDATE "objs" SET "expires" = ?, "obj" = ?, "etag" = ?, "lastModified" = ?, "noCache" = ?, "updated" = ? '+
+                            'WHERE "objId" = ? AND "collection" = ?',
+                            [expires,obj,etag,lastModified,noCache,updated,objId,collection],
+                            (t,result)=>{
+                                if(!result.rowsAffected){
+                                    t.executeSql(
+                                        'INSERT INTO "objs" ("expires","collection","refCollection","objId","obj","etag","lastModified","noCache","updated") '+
+                                        'VALUES (?,?,?,?,?,?,?,?,?)',
+                                        row);
+                                }
+                            });
+                    }
+                }else{
+                    for(let i=0;i<batch.length;i+=maxRowsPerInsert){
+                        const insertRows=batch.slice(i,i+maxRowsPerInsert);
+                        tx.executeSql(
+                            'INSERT INTO "objs" ("expires","collection","refCollection","objId","obj","etag","lastModified","noCache","updated") VALUES '+
+                            insertRows.map(()=>'(?,?,?,?,?,?,?,?,?)').join(',')+
+                            ' ON CONFLICT ("objId","collection") DO UPDATE SET '+
+                            '"expires" = excluded."expires", "obj" = excluded."obj", "etag" = excluded."etag", '+
+                            '"lastModified" = excluded."lastModified", "noCache" = excluded."noCache", "updated" = excluded."updated"',
+                            ([] as any[]).concat(...insertRows));
+                    }
+                }
+                if(!this.json1){
+                    for(const record of records.slice(b,b+writeBatchSize)){
+                        this.insertValues(tx,record.collection,record.objId,record.obj);
+                    }
+                }
+            });
+        }
+    }
+
+    public async extendRecordsAsync(collection:string,objIds:string[],expires:number,updated:number):Promise<void>
+    {
+        if(!objIds.length){
+            return;
+        }
+        await this.execAsync(
+            'UPDATE "objs" SET "expires" = ?, "updated" = ? WHERE "collection" = ? AND "objId" IN ('+objIds.map(()=>'?').join(',')+')',
+            [expires,updated,collection,...objIds]
+        )
+    }
+
+    public async deleteRecordAsync(collection:string,objId:string,includeRefs:boolean):Promise<void>
+    {
+        if(includeRefs){
+            await this.execAsync(
+                'DELETE FROM "objs" WHERE "objId" = ? AND ( "collection" = ? OR "refCollection" = ? )',
+                [objId,collection,collection]
+            )
+        }else{
+            await this.execAsync(
+                'DELETE FROM "objs" WHERE "objId" = ? AND "collection" = ?',
+                [objId,collection]
+            )
+        }
+    }
+
+    public async deleteRecordsAsync(keys:DbRecordKey[]):Promise<void>
+    {
+        if(!keys.length){
+            return;
+        }
+        await this.execAsync(tx=>{
+            for(const key of keys){
+                tx.executeSql(
+                    'DELETE FROM "objs" WHERE "objId" = ? AND "collection" = ?',
+                    [key.objId,key.collection]);
+            }
+        });
+    }
+
+    public async deleteCollectionAsync(collection:string):Promise<void>
+    {
+        await this.execAsync(
+            'DELETE FROM "objs" WHERE "collection" = ? OR "refCollection" = ?',
+            [collection,collection]
+        )
+    }
+
+    public async clearRecordsAsync():Promise<void>
+    {
+        await this.execAsync('DELETE FROM "objs"');
+        await this.vacuumAsync();
+    }
+
+    public async migrateCollectionAsync(collection:string,migrate:(obj:any)=>any,settingName:string,settingValue:string):Promise<void>
+    {
+        const r=await this.selectAsync(
+            'SELECT "objId", "obj" FROM "objs" WHERE "collection" = ?',
+            [collection]);
+
+        await this.execAsync(tx=>{
+            for(let i=0;i<(r.rows?.length||0);i++){
+                const row=r.rows.item(i) as DbRecord;
+                const obj=migrate(row.obj?JSON.parse(row.obj):null);
+                if(obj===null || obj===undefined){
+                    tx.executeSql(
+                        'DELETE FROM "objs" WHERE "objId" = ? AND "collection" = ?',
+                        [row.objId,collection]);
+                }else{
+                    const json=JSON.stringify(obj);
+                    tx.executeSql(
+                        'UPDATE "objs" SET "obj" = ? WHERE "objId" = ? AND "collection" = ?',
+                        [json,row.objId,collection]);
+                    if(!this.json1){
+                        this.insertValues(tx,collection,row.objId,json);
+                    }
+                }
+            }
+            setSetting(tx,settingName,settingValue);
+        });
+    }
+
+    public async getExpiredKeysAsync(before:number):Promise<DbExpiredRecordKey[]>
+    {
+        return toRows<DbExpiredRecordKey>(await this.selectAsync(
+            'SELECT "collection", "objId", "refCollection", "obj" FROM "objs" '+
+            'WHERE "expires" > 0 AND "expires" < ? AND "etag" IS NULL AND "lastModified" IS NULL',
+            [before])).map(k=>({...k,refCollection:k.refCollection||null}));
+    }
+
+    public async getRefRecordsAsync():Promise<DbRecord[]>
+    {
+        return toRows(await this.selectAsync(
+            'SELECT * FROM "objs" WHERE "refCollection" <> \'\''));
+    }
+
+    public async countRecordsAsync(collection:string,objIds:string[]):Promise<number>
+    {
+        if(!objIds.length){
+            return 0;
+        }
+        const r=await this.selectAsync(
+            'SELECT COUNT(*) as "count" FROM "objs" WHERE "collection" = ? AND "objId" IN ('+objIds.map(()=>'?').join(',')+')',
+            [collection,...objIds]);
+        return r.rows?.item(0)?.count||0;
+    }
+
+    public async getStatsAsync():Promise<DbStorageStats>
+    {
+        const r=await this.selectAsync('SELECT COUNT(*) as "count", SUM(LENGTH("obj")) as "size" FROM "objs"');
+        return {
+            count:r.rows?.item(0)?.count||0,
+            size:r.rows?.item(0)?.size||0
+        }
+    }
+
+    public async getLeastRecentlyUpdatedAsync(limit:number,offset:number):Promise<DbRecordSize[]>
+    {
+        return toRows(await this.selectAsync(
+            'SELECT "collection", "objId", LENGTH("obj") as "size" FROM "objs" ORDER BY "updated" LIMIT ? OFFSET ?',
+            [limit,offset]));
+    }
+
+    public async vacuumAsync():Promise<void>
+    {
+        await this.nonTransactionalExecAsync('VACUUM');
+    }
+
+    public async addMutationAsync(mutation:PendingMutation):Promise<number>
+    {
+        let id=0;
+        await this.execAsync(tx=>{
+            tx.executeSql(
+                'INSERT INTO "outbox" ("type","collection","objId","data","endpoint","created","attempts","nextAttempt","lastError","failed") '+
+                'VALUES (?,?,?,?,?,?,?,?,?,?)',
+                [
+                    mutation.type,
+                    mutation.collection,
+                    mutation.objId,
+                    mutation.data===null?null:JSON.stringify(mutation.data),
+                    mutation.endpoint,
+                    mutation.created,
+                    mutation.attempts,
+                    mutation.nextAttempt,
+                    mutation.lastError,
+                    mutation.failed?1:0
+                ],
+                (_t,r)=>{
+                    id=r.insertId;
+                });
+        });
+        return id;
+    }
+
+    public async getMutationsAsync(limit?:number):Promise<PendingMutation[]>
+    {
+        const r=limit===undefined?
+            await this.selectAsync('SELECT * FROM "outbox" ORDER BY "id"'):
+            await this.selectAsync('SELECT * FROM "outbox" ORDER BY "id" LIMIT ?',[limit]);
+        return toRows<DbMutationRecord>(r).map(toPendingMutation);
+    }
+
+    public async updateMutationAsync(mutation:PendingMutation):Promise<void>
+    {
+        await this.execAsync(
+            'UPDATE "outbox" SET "attempts" = ?, "nextAttempt" = ?, "lastError" = ?, "failed" = ? WHERE "id" = ?',
+            [mutation.attempts,mutation.nextAttempt,mutation.lastError,mutation.failed?1:0,mutation.id]);
+    }
+
+    public async deleteMutationAsync(id:number):Promise<void>
+    {
+        await this.execAsync('DELETE FROM "outbox" WHERE "id" = ?',[id]);
+    }
+
+    private async nonTransactionalExecAsync(sql:string,args?:any[],readOnly:boolean=false):Promise<(ResultSetError|ResultSet)[]|undefined>
+    {
+        const db=this.db;
+        if(!db.exec){
+            return;
+        }
+        return await new Promise<(ResultSetError|ResultSet)[]|undefined>((success,error)=>{
+            if(!db.exec){
+                error('exec not implemented');
+                return;
+            }
+            db.exec([{sql,args:args||[]}],readOnly,(err,r)=>{
+                if(err){
+                    error(err);
+                }else{
+                    success(r);
+                }
+            });
+        });
+    }
+
+    private execAsync(exec:((tx:SQLTransaction)=>void)|string|string[],args?:any[]|any[][]):Promise<void>
+    {
+
+        return new Promise<void>((success,error)=>{
+            this.db.transaction(tx=>{
+                if(typeof(exec) === 'string'){
+                    tx.executeSql(exec,args);
+                }else if(Array.isArray(exec)){
+                    for(let i=0;i<exec.length;i++){
+                        const sql=exec[i];
+                        if(!sql){
+                            continue;
+                        }
+                        tx.executeSql(sql,args?.[i] as any[]|undefined);
+                    }
+                }else{
+                    exec(tx);
+                }
+            },
+            (err:SQLError)=>{
+                console.debug('execAsync error',exec,args)
+                error(err.message+' - code:'+err.code);
+            },
+            success)
+
+        });
+    }
+
+    private selectAsync(sql:string,args?:any[]):Promise<SQLResultSet>
+    {
+        return new Promise<SQLResultSet>((success,error)=>{
+            this.db.transaction(tx=>{
+                tx.executeSql(sql,args,
+                    (_t,result)=>{
+                        success(result);
+                    },
+                    (_t,err)=>{
+                        error(err.message+' - code:'+err.code);
+                        return true;
+                    });
+            },
+            (err:SQLError)=>{
+                error(err.message+' - code:'+err.code)
+            })
+        });
+    }
+}
+
+/**
+ * Sets a setting as part of a transaction
+ */
+const setSetting=(tx:SQLTransaction,name:string,value:string)=>{
+    tx.executeSql('DELETE FROM "settings" WHERE "name" = ?',[name]);
+    tx.executeSql('INSERT INTO "settings" ("name","value") VALUES (?,?)',[name,value]);
+}
+
+/**
+ * Inserts the value of a path of an object into objValues as part of a transaction
+ * @param obj The object or its json
+ */
+const insertValue=(tx:SQLTransaction,collection:string,objId:string,path:string,obj:any)=>{
+    if(typeof obj === 'string'){
+        obj=JSON.parse(obj);
+    }
+    const value=toStoredValue(getPathValue(obj,path));
+    if(value===undefined){
+        return;
+    }
+    tx.executeSql(
+        'INSERT INTO "objValues" ("collection","objId","path","value") VALUES (?,?,?,?)',
+        [collection,objId,path,value]);
+}
+
+const toRows=<T=any>(r:SQLResultSet):T[]=>{
+    const rows:T[]=[];
+    for(let i=0;i<(r.rows?.length||0);i++){
+        rows.push(r.rows.item(i));
+    }
+    return rows;
+}
+
+const toPendingMutation=(row:DbMutationRecord):PendingMutation=>({
+    id:row.id,
+    type:row.type,
+    collection:row.collection,
+    objId:row.objId||null,
+    data:row.data?JSON.parse(row.data):null,
+    endpoint:row.endpoint||null,
+    created:row.created,
+    attempts:row.attempts,
+    nextAttempt:row.nextAttempt,
+    lastError:row.lastError||null,
+    failed:row.failed?true:false
+});
@@ -0,0 +1,216 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ClientDb from "../ClientDb";
+import openDatabaseBetterSqlite3 from "../adapters/better-sqlite3";
+import MemoryStorageEngine from "../adapters/memory";
+import { DatabaseAdapter, DbConfig, DbQuery, IHttp } from "../db-types";
+
+const createHttp=(calls:string[],responses:{[path:string]:any}):IHttp=>{
+    const send=async (method:string,path:string,data?:any):Promise<any>=>{
+        calls.push(method+' '+path);
+        return method==='GET'?responses[path]??null:data??null;
+    }
+    return {
+        getAsync:(path)=>send('GET',path),
+        postAsync:(path,data)=>send('POST',path,data),
+        putAsync:(path,data)=>send('PUT',path,data),
+        patchAsync:(path,data)=>send('PATCH',path,data),
+        deleteAsync:(path,data)=>send('DELETE',path,data)
+    }
+}
+
+/**
+ * Opens the database using better-sqlite3 and replaces statements run in transactions. Used to
+ * simulate SQLite builds without some features.
+ */
+const withSql=(map:(sql:string)=>string):DatabaseAdapter=>config=>{
+    const db=openDatabaseBetterSqlite3(config);
+    return {
+        ...db,
+        transaction:(callback,errorCallback,successCallback)=>db.transaction(tx=>callback({
+            executeSql:(sql,args,callback,errorCallback)=>tx.executeSql(map(sql),args,callback,errorCallback)
+        }),errorCallback,successCallback)
+    }
+}
+
+const withoutUpsert=withSql(sql=>sql.includes('sqlite_version()')?`SELECT '3.22.0' as "version"`:sql);
+
+const withoutJson1=withSql(sql=>sql.includes(`json_extract('{"a":1}'`)?'SELECT 0 as "value"':sql);
+
+describe('ClientDb with better-sqlite3',()=>{
+
+    let dir:string;
+    let databaseName:string;
+    let calls:string[];
+    let responses:{[path:string]:any};
+    const dbs:ClientDb[]=[];
+
+    const createAsync=async (cfg?:DbConfig,openDatabase:DatabaseAdapter=openDatabaseBetterSqlite3)=>{
+        const db=new ClientDb(
+            createHttp(calls,responses),
+            {syncIntervalMinutes:0,databaseName,...cfg},
+            openDatabase);
+        dbs.push(db);
+        await db.initAsync();
+        return db;
+    }
+
+    const readSetting=(name:string)=>{
+        const raw=new Database(databaseName,{readonly:true});
+        try{
+            return (raw.prepare('SELECT "value" FROM "settings" WHERE "name" = ?').get(name) as any)?.value;
+        }finally{
+            raw.close();
+        }
+    }
+
+    const readTriggers=()=>{
+        const raw=new Database(databaseName,{readonly:true});
+        try{
+            return raw.prepare(`SELECT "name" FROM "sqlite_master" WHERE "type" = 'trigger' ORDER BY "name"`).all()
+                .map((r:any)=>r.name);
+        }finally{
+            raw.close();
+        }
+    }
+
+    beforeEach(()=>{
+        dir=fs.mkdtempSync(path.join(os.tmpdir(),'client-db-'));
+        databaseName=path.join(dir,'cache.db');
+        calls=[];
+        responses={};
+    });
+
+    afterEach(()=>{
+        for(const db of dbs.splice(0)){
+            db.dispose();
+        }
+        fs.rmSync(dir,{recursive:true,force:true});
+    });
+
+    it('should run the schema migrations',async ()=>{
+        await createAsync();
+        expect(Number(readSetting('schemaVersion'))).toBeGreaterThan(0);
+    });
+
+    it('should keep cached objects in the database file',async ()=>{
+        responses['users/1']={Id:1,name:'Ada'};
+        const first=await createAsync();
+        expect(await first.getObjAsync('users',1)).toEqual({Id:1,name:'Ada'});
+        await first.setAsync('users',{Id:2,name:'Bob'});
+        first.dispose();
+
+        const second=await createAsync();
+        expect(await second.getObjAsync('users',1)).toEqual({Id:1,name:'Ada'});
+        expect(await second.getObjAsync('users',2)).toEqual({Id:2,name:'Bob'});
+        expect(calls).toEqual(['GET users/1']);
+    });
+
+    it('should keep ref collections in the database file',async ()=>{
+        responses['posts/1/comments']=[{Id:10,postId:1},{Id:11,postId:1}];
+        const first=await createAsync();
+        await first.getObjRefCollection('posts',1,'comments','comments','postId');
+        first.dispose();
+
+        const second=await createAsync();
+        expect(await second.getObjRefCollection('posts',1,'comments','comments','postId'))
+            .toEqual([{Id:10,postId:1},{Id:11,postId:1}]);
+        expect(calls).toEqual(['GET posts/1/comments']);
+    });
+
+    it('should write records without upsert support',async ()=>{
+        responses['posts/1/comments']=[{Id:10,postId:1}];
+        const first=await createAsync(undefined,withoutUpsert);
+        await first.setAsync('users',{Id:1,name:'Ada'});
+        await first.setAsync('users',{Id:1,name:'Bob'});
+        await first.getObjRefCollection('posts',1,'comments','comments','postId');
+        first.dispose();
+
+        const second=await createAsync();
+        expect(await second.queryLocalAsync('users')).toEqual([{Id:1,name:'Bob'}]);
+        expect(await second.getObjRefCollection('posts',1,'comments','comments','postId')).toEqual([{Id:10,postId:1}]);
+        expect(calls).toEqual(['GET posts/1/comments']);
+    });
+
+    it('should only keep objValues triggers without JSON1',async ()=>{
+        const first=await createAsync({jsonIndexes:{users:['name']}},withoutJson1);
+        await first.setAsync('users',{Id:1,name:'Ada'});
+        await first.setAsync('users',{Id:1,name:'Bob'});
+        expect(await first.queryLocalAsync('users',{where:[{path:'name',op:'=',value:'Bob'}]})).toEqual([{Id:1,name:'Bob'}]);
+        expect(readTriggers()).toEqual(['objsDeleteValues','objsUpdateValues']);
+        first.dispose();
+
+        await createAsync({jsonIndexes:{users:['name']}});
+        expect(readTriggers()).toEqual([]);
+    });
+
+    it('should keep queued mutations in the database file',async ()=>{
+        const first=await createAsync();
+        first.setOnline(false);
+        await first.queueMutationAsync('patch','users',1,{name:'x'});
+        first.dispose();
+
+        const second=await createAsync();
+        second.setOnline(false);
+        expect((await second.getPendingMutationsAsync()).map(m=>[m.type,m.objId,m.data])).toEqual([['patch','1',{name:'x'}]]);
+
+        second.setOnline(true);
+        await second.replayMutationsAsync();
+        expect(await second.getPendingMutationsAsync()).toEqual([]);
+        expect(calls).toEqual(['PATCH users/1']);
+    });
+
+    it('should run data migrations once',async ()=>{
+        const first=await createAsync();
+        await first.setAsync('users',{Id:1,name:'Ada'});
+        await first.setAsync('users',{Id:2,name:'Bob'});
+        first.dispose();
+
+        const migrate=jest.fn((u:any)=>u.Id===2?null:{...u,version:1});
+        const dataMigrations=[{collection:'users',version:1,migrate}];
+        const second=await createAsync({dataMigrations});
+        expect(await second.queryLocalAsync('users')).toEqual([{Id:1,name:'Ada',version:1}]);
+        second.dispose();
+
+        await createAsync({dataMigrations});
+        expect(migrate).toHaveBeenCalledTimes(2);
+        expect(readSetting('dataVersion:users')).toBe('1');
+    });
+
+    it('should return the same query results as the memory engine',async ()=>{
+        const sqlite=await createAsync();
+        const memory=new ClientDb(createHttp([],{}),{syncIntervalMinutes:0},new MemoryStorageEngine());
+        dbs.push(memory);
+        await memory.initAsync();
+
+        const users=[
+            {Id:1,name:'Ada',age:36,admin:true,address:{city:'London'}},
+            {Id:2,name:'bob',age:20,admin:false,address:{city:'Oslo'}},
+            {Id:3,name:'Cy',age:'40',admin:false},
+            {Id:4,name:'Dee',age:null},
+            {Id:5,name:'Eve',age:28,address:{city:'london'}}
+        ];
+        for(const user of users){
+            await sqlite.setAsync('users',user);
+            await memory.setAsync('users',user);
+        }
+
+        const queries:DbQuery[]=[
+            {},
+            {where:[{path:'age',op:'>',value:25}],orderBy:[{path:'age'}]},
+            {where:[{path:'age',op:'!=',value:20}],orderBy:[{path:'Id',desc:true}]},
+            {where:[{path:'admin',op:'=',value:false}]},
+            {where:[{path:'age',op:'isNull'}]},
+            {where:[{path:'address.city',op:'like',value:'lon%'}]},
+            {where:[{path:'name',op:'in',value:['Ada','Eve']}]},
+            {where:[{path:'name',op:'notIn',value:['Ada']}],orderBy:[{path:'name'}],limit:2,offset:1},
+            {orderBy:[{path:'age',desc:true},{path:'Id'}]}
+        ];
+        expect(await sqlite.queryLocalAsync('users',queries[1])).toEqual([users[4],users[0],users[2]]);
+        for(const query of queries){
+            expect(await sqlite.queryLocalAsync('users',query)).toEqual(await memory.queryLocalAsync('users',query));
+        }
+    });
+});
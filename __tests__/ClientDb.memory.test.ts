@@ -0,0 +1,326 @@
+import ClientDb from "../ClientDb";
+import MemoryStorageEngine from "../adapters/memory";
+import { DbConfig, HttpResponse, IHttp, MutationEventType, ObjEventType } from "../db-types";
+
+/**
+ * Serves objects from a map of paths. Requests are recorded in calls
+ */
+class TestHttp implements IHttp
+{
+    public readonly calls:string[]=[];
+
+    public readonly responses:{[path:string]:any}={};
+
+    public readonly headers:{[path:string]:{[name:string]:string}}={};
+
+    public error:any=null;
+
+    public async getAsync<T>(path:string):Promise<T>
+    {
+        this.calls.push('GET '+path);
+        if(this.error){
+            throw this.error;
+        }
+        return this.responses[path]??null;
+    }
+
+    public async postAsync<T>(path:string,data?:any):Promise<T>
+    {
+        return this.send('POST',path,data);
+    }
+
+    public async putAsync<T>(path:string,data?:any):Promise<T>
+    {
+        return this.send('PUT',path,data);
+    }
+
+    public async patchAsync<T>(path:string,data?:any):Promise<T>
+    {
+        return this.send('PATCH',path,data);
+    }
+
+    public async deleteAsync<T>(path:string,data?:any):Promise<T>
+    {
+        return this.send('DELETE',path,data);
+    }
+
+    private async send(method:string,path:string,data:any):Promise<any>
+    {
+        this.calls.push(method+' '+path+(data===undefined?'':' '+JSON.stringify(data)));
+        if(this.error){
+            throw this.error;
+        }
+        return data??null;
+    }
+}
+
+/**
+ * Returns responses with headers using getResponseAsync
+ */
+class TestResponseHttp extends TestHttp
+{
+    public async getResponseAsync<T>(path:string,options?:{headers?:{[name:string]:string}}):Promise<HttpResponse<T>>
+    {
+        const etag=this.headers[path]?.['ETag'];
+        const ifNoneMatch=options?.headers?.['If-None-Match'];
+        this.calls.push('GET '+path+(ifNoneMatch?' '+ifNoneMatch:''));
+        if(etag && ifNoneMatch===etag){
+            return {status:304,data:null,headers:this.headers[path]};
+        }
+        return {status:200,data:this.responses[path]??null,headers:this.headers[path]||{}};
+    }
+}
+
+const wait=(ms:number)=>new Promise(r=>setTimeout(r,ms));
+
+const config:DbConfig={
+    syncIntervalMinutes:0,
+    outboxRetryDelayMs:1,
+    outboxMaxRetryDelayMs:1
+};
+
+describe('ClientDb with MemoryStorageEngine',()=>{
+
+    let http:TestHttp;
+    let engine:MemoryStorageEngine;
+    let db:ClientDb;
+
+    const createAsync=async (cfg?:DbConfig,h?:TestHttp)=>{
+        http=h||new TestHttp();
+        engine=new MemoryStorageEngine();
+        db=new ClientDb(http,{...config,...cfg},engine);
+        await db.initAsync();
+    }
+
+    afterEach(()=>{
+        db.dispose();
+    });
+
+    it('should fetch objects once and serve them from the cache',async ()=>{
+        await createAsync();
+        http.responses['users/1']={Id:1,name:'Ada'};
+
+        expect(await db.getObjAsync('users',1)).toEqual({Id:1,name:'Ada'});
+        expect(await db.getObjAsync('users',1)).toEqual({Id:1,name:'Ada'});
+        expect(http.calls).toEqual(['GET users/1']);
+        expect(await engine.getRecordAsync('users','1')).toMatchObject({obj:JSON.stringify({Id:1,name:'Ada'})});
+    });
+
+    it('should share concurrent requests for the same object',async ()=>{
+        await createAsync();
+        http.responses['users/1']={Id:1};
+
+        const [a,b]=await Promise.all([db.getObjAsync('users',1),db.getObjAsync('users',1)]);
+        expect(a).toEqual({Id:1});
+        expect(b).toEqual({Id:1});
+        expect(http.calls).toEqual(['GET users/1']);
+    });
+
+    it('should reload expired objects',async ()=>{
+        await createAsync({defaultTTLMinutes:0.0001});
+        http.responses['users/1']={Id:1,v:1};
+        await db.getObjAsync('users',1);
+        await wait(20);
+        http.responses['users/1']={Id:1,v:2};
+
+        expect(await db.isStaleAsync('users',1)).toBe(true);
+        expect(await db.getObjAsync('users',1)).toEqual({Id:1,v:2});
+        expect(http.calls).toEqual(['GET users/1','GET users/1']);
+    });
+
+    it('should return stale objects and revalidate them in the background',async ()=>{
+        await createAsync({defaultTTLMinutes:0.0001,staleWhileRevalidate:true});
+        http.responses['users/1']={Id:1,v:1};
+        await db.getObjAsync('users',1);
+        await wait(20);
+        http.responses['users/1']={Id:1,v:2};
+
+        const events:any[]=[];
+        db.addListener((type,collection,id,obj)=>events.push([type,collection,id,obj]));
+
+        expect(await db.getObjAsync('users',1)).toEqual({Id:1,v:1});
+        await wait(20);
+        expect(events).toEqual([['set','users','1',{Id:1,v:2}]]);
+        expect(await db.getObjAsync('users',1)).toEqual({Id:1,v:2});
+    });
+
+    it('should keep the cached object when a refresh fails',async ()=>{
+        await createAsync({offlineFallback:true});
+        http.responses['users/1']={Id:1,v:1};
+        await db.getObjAsync('users',1);
+        http.error=new Error('offline');
+
+        expect(await db.getObjAsync('users',1,undefined,undefined,null,true)).toEqual({Id:1,v:1});
+        expect(await engine.getRecordAsync('users','1')).toMatchObject({obj:JSON.stringify({Id:1,v:1})});
+
+        http.error=null;
+        http.responses['users/1']={Id:1,v:2};
+        expect(await db.getObjAsync('users',1,undefined,undefined,null,true)).toEqual({Id:1,v:2});
+        expect(await db.getObjAsync('users',1)).toEqual({Id:1,v:2});
+        expect(http.calls).toEqual(['GET users/1','GET users/1','GET users/1']);
+    });
+
+    it('should sweep expired objects after the grace period when using offline fallback',async ()=>{
+        await createAsync({defaultTTLMinutes:0.0001,sweepExpiredGraceMinutes:0.001,offlineFallback:true});
+        http.responses['users/1']={Id:1};
+        await db.getObjAsync('users',1);
+        await wait(20);
+
+        expect((await db.sweepAsync()).expired).toBe(0);
+        http.error=new Error('offline');
+        expect(await db.getObjAsync('users',1)).toEqual({Id:1});
+
+        await wait(80);
+        expect((await db.sweepAsync()).expired).toBe(1);
+        expect(await engine.getRecordAsync('users','1')).toBeNull();
+    });
+
+    it('should notify listeners of local changes',async ()=>{
+        await createAsync();
+        const events:[ObjEventType,string,string][]=[];
+        db.addListener((type,collection,id)=>events.push([type,collection,id]));
+
+        await db.setAsync('users',{Id:1,name:'Ada'});
+        await db.deleteAsync('users',1);
+
+        expect(events).toEqual([['set','users','1'],['delete','users','1']]);
+        expect(await engine.getRecordAsync('users','1')).toBeNull();
+        expect(http.calls).toEqual([]);
+    });
+
+    it('should load and cache ref collections',async ()=>{
+        await createAsync();
+        http.responses['posts/1/comments']=[{Id:10,postId:1},{Id:11,postId:1}];
+
+        const comments=await db.getObjRefCollection('posts',1,'comments','comments','postId');
+        expect(comments).toEqual([{Id:10,postId:1},{Id:11,postId:1}]);
+        expect(await db.getObjRefCollection('posts',1,'comments','comments','postId')).toEqual(comments);
+        expect(http.calls).toEqual(['GET posts/1/comments']);
+        expect(await db.getObjAsync('comments',11)).toEqual({Id:11,postId:1});
+        expect(http.calls).toEqual(['GET posts/1/comments']);
+    });
+
+    it('should keep expired ref collections of stale while revalidate collections when sweeping',async ()=>{
+        await createAsync({defaultTTLMinutes:0.0001,staleWhileRevalidateMap:{comments:true}});
+        http.responses['posts/1/comments']=[{Id:10,postId:1}];
+        http.responses['users/1']={Id:1};
+        await db.getObjRefCollection('posts',1,'comments','comments','postId');
+        await db.getObjAsync('users',1);
+        await wait(20);
+
+        expect((await db.sweepAsync()).expired).toBe(1);
+        expect(await engine.getRecordAsync('users','1')).toBeNull();
+        expect(await engine.getRecordAsync('posts:REF:comments','1')).not.toBeNull();
+
+        http.responses['posts/1/comments']=[{Id:10,postId:1},{Id:11,postId:1}];
+        expect(await db.getObjRefCollection('posts',1,'comments','comments','postId')).toEqual([{Id:10,postId:1}]);
+    });
+
+    it('should query cached objects',async ()=>{
+        await createAsync();
+        for(const obj of [{Id:1,age:30},{Id:2,age:20},{Id:3,age:40},{Id:4}]){
+            await db.setAsync('users',obj);
+        }
+
+        expect(await db.queryLocalAsync('users',{
+            where:[{path:'age',op:'>=',value:25}],
+            orderBy:[{path:'age',desc:true}]
+        })).toEqual([{Id:3,age:40},{Id:1,age:30}]);
+        expect(await db.queryLocalAsync('users',{where:[{path:'age',op:'isNull'}]})).toEqual([{Id:4}]);
+    });
+
+    it('should apply queued mutations locally and send them when online',async ()=>{
+        await createAsync();
+        const events:MutationEventType[]=[];
+        db.addMutationListener(type=>events.push(type));
+        db.setOnline(false);
+
+        await db.queueMutationAsync('replace','users',1,{Id:1,name:'local'});
+        expect(await db.getObjAsync('users',1)).toEqual({Id:1,name:'local'});
+        expect((await db.getPendingMutationsAsync()).map(m=>m.type)).toEqual(['replace']);
+        expect(http.calls).toEqual([]);
+
+        db.setOnline(true);
+        await wait(20);
+
+        expect(http.calls).toEqual(['PUT users/1 {"Id":1,"name":"local"}']);
+        expect(await db.getPendingMutationsAsync()).toEqual([]);
+        expect(events).toEqual(['queued','sent']);
+    });
+
+    it('should copy queued mutation data',async ()=>{
+        await createAsync();
+        db.setOnline(false);
+        const data={name:'x',tags:['a']};
+
+        await db.queueMutationAsync('patch','users',1,data);
+        data.tags.push('b');
+        const [mutation]=await db.getPendingMutationsAsync();
+        mutation.data.name='y';
+
+        expect((await db.getPendingMutationsAsync())[0].data).toEqual({name:'x',tags:['a']});
+    });
+
+    it('should keep mutations in the outbox when the network fails',async ()=>{
+        await createAsync();
+        http.error=new Error('offline');
+
+        await db.queueMutationAsync('patch','users',1,{name:'x'});
+        await wait(30);
+
+        const [mutation]=await db.getPendingMutationsAsync();
+        expect(mutation).toMatchObject({type:'patch',failed:false,attempts:0});
+
+        http.error=null;
+        await db.replayMutationsAsync();
+        expect(await db.getPendingMutationsAsync()).toEqual([]);
+    });
+
+    it('should keep failed mutations until they are retried or discarded',async ()=>{
+        await createAsync({outboxErrorType:()=>'fail'});
+        http.error=new Error('forbidden');
+        const events:MutationEventType[]=[];
+        db.addMutationListener(type=>events.push(type));
+
+        const queued=await db.queueMutationAsync('delete','users',1);
+        await wait(20);
+
+        expect((await db.getPendingMutationsAsync()).map(m=>m.failed)).toEqual([true]);
+        expect(events).toEqual(['queued','failed']);
+
+        await db.discardMutationAsync(queued.id);
+        expect(await db.getPendingMutationsAsync()).toEqual([]);
+        expect(events).toEqual(['queued','failed','discarded']);
+    });
+
+    it('should roll back optimistic updates that fail',async ()=>{
+        await createAsync();
+        await db.setAsync('users',{Id:1,name:'Ada'});
+        http.error=new Error('rejected');
+
+        await expect(db.optimisticUpdateAsync<any>('users',1,u=>({...u,name:'Bob'}))).rejects.toThrow('rejected');
+        expect(await db.getObjAsync('users',1)).toEqual({Id:1,name:'Ada'});
+
+        http.error=null;
+        // the test server echoes the patch which is merged over the cached object
+        expect(await db.optimisticUpdateAsync<any>('users',1,u=>({...u,name:'Bob'}))).toEqual({Id:1,name:'Bob'});
+        expect(await engine.getRecordAsync('users','1')).toMatchObject({obj:JSON.stringify({Id:1,name:'Bob'})});
+        expect(http.calls).toEqual(['PATCH users/1 {"name":"Bob"}','PATCH users/1 {"name":"Bob"}']);
+    });
+
+    it('should revalidate no-cache responses and not store no-store responses',async ()=>{
+        const h=new TestResponseHttp();
+        await createAsync(undefined,h);
+        h.responses['users/1']={Id:1};
+        h.headers['users/1']={'ETag':'"v1"','Cache-Control':'no-cache'};
+        h.responses['users/2']={Id:2};
+        h.headers['users/2']={'Cache-Control':'no-store'};
+
+        expect(await db.getObjAsync('users',1)).toEqual({Id:1});
+        expect(await db.getObjAsync('users',1)).toEqual({Id:1});
+        expect(await db.getObjAsync('users',2)).toEqual({Id:2});
+
+        expect(h.calls).toEqual(['GET users/1','GET users/1 "v1"','GET users/2']);
+        expect(await engine.getRecordAsync('users','2')).toBeNull();
+    });
+});
@@ -0,0 +1,178 @@
+import { compileQuery, compareValues, matchesCondition, queryRecords } from "../db-query";
+import { DbRecord } from "../db-types";
+
+const now=1000;
+
+const toRecord=(obj:any,expires=0):DbRecord=>({
+    expires,
+    collection:'users',
+    refCollection:null,
+    objId:String(obj.Id),
+    obj:JSON.stringify(obj),
+    etag:null,
+    lastModified:null,
+    updated:0
+});
+
+describe('compileQuery',()=>{
+
+    it('should select non expired records of the collection',()=>{
+        expect(compileQuery('users',{},now)).toEqual({
+            sql:'SELECT * FROM "objs" WHERE "collection" = ? AND ( "expires" <= 0 OR "expires" >= ? ) ORDER BY "rowid"',
+            args:['users',now]
+        });
+    });
+
+    it('should include expired records',()=>{
+        expect(compileQuery('users',{includeExpired:true},now)).toEqual({
+            sql:'SELECT * FROM "objs" WHERE "collection" = ? ORDER BY "rowid"',
+            args:['users']
+        });
+    });
+
+    it('should compile conditions in order',()=>{
+        const q=compileQuery('users',{
+            includeExpired:true,
+            where:[
+                {path:'age',op:'>=',value:18},
+                {path:'address.city',op:'!=',value:'Oslo'},
+                {path:'tags[0]',op:'in',value:['a',true]},
+                {path:'deleted',op:'isNull'}
+            ]
+        },now);
+        expect(q.sql).toBe('SELECT * FROM "objs" WHERE "collection" = ?'+
+            ` AND json_extract("obj",'$.age') >= ?`+
+            ` AND json_extract("obj",'$.address.city') <> ?`+
+            ` AND json_extract("obj",'$.tags[0]') IN (?,?)`+
+            ` AND json_extract("obj",'$.deleted') IS NULL`+
+            ' ORDER BY "rowid"');
+        expect(q.args).toEqual(['users',18,'Oslo','a',1]);
+    });
+
+    it('should never match comparisons with null',()=>{
+        const q=compileQuery('users',{includeExpired:true,where:[{path:'name',op:'=',value:null}]},now);
+        expect(q.sql).toContain(' AND 0');
+        expect(q.args).toEqual(['users']);
+    });
+
+    it('should compile empty in and notIn lists',()=>{
+        expect(compileQuery('users',{includeExpired:true,where:[{path:'n',op:'in',value:[]}]},now).sql)
+            .toContain(' AND 0');
+        expect(compileQuery('users',{includeExpired:true,where:[{path:'n',op:'notIn',value:[]}]},now).sql)
+            .toContain(`json_extract("obj",'$.n') IS NOT NULL`);
+    });
+
+    it('should order, limit and offset',()=>{
+        const q=compileQuery('users',{
+            includeExpired:true,
+            orderBy:[{path:'name'},{path:'age',desc:true}],
+            offset:20
+        },now);
+        expect(q.sql).toBe('SELECT * FROM "objs" WHERE "collection" = ?'+
+            ` ORDER BY json_extract("obj",'$.name') ASC, json_extract("obj",'$.age') DESC LIMIT ? OFFSET ?`);
+        expect(q.args).toEqual(['users',-1,20]);
+    });
+
+    it('should reject invalid paths',()=>{
+        expect(()=>compileQuery('users',{where:[{path:`name') OR 1=1 --`,op:'=',value:1}]},now))
+            .toThrow('Invalid query path');
+        expect(()=>compileQuery('users',{orderBy:[{path:'a b'}]},now)).toThrow('Invalid query path');
+    });
+
+    it('should require an array for in conditions',()=>{
+        expect(()=>compileQuery('users',{where:[{path:'n',op:'in',value:1}]},now)).toThrow('requires an array');
+    });
+});
+
+describe('matchesCondition',()=>{
+
+    const user={Id:1,name:'Ada',age:36,admin:true,address:{city:'London'},tags:['math','code'],deleted:null};
+
+    it('should compare values',()=>{
+        expect(matchesCondition(user,{path:'age',op:'=',value:36})).toBe(true);
+        expect(matchesCondition(user,{path:'age',op:'!=',value:36})).toBe(false);
+        expect(matchesCondition(user,{path:'age',op:'<',value:40})).toBe(true);
+        expect(matchesCondition(user,{path:'age',op:'<=',value:36})).toBe(true);
+        expect(matchesCondition(user,{path:'age',op:'>',value:36})).toBe(false);
+        expect(matchesCondition(user,{path:'age',op:'>=',value:36})).toBe(true);
+    });
+
+    it('should read nested paths',()=>{
+        expect(matchesCondition(user,{path:'address.city',op:'=',value:'London'})).toBe(true);
+        expect(matchesCondition(user,{path:'tags[1]',op:'=',value:'code'})).toBe(true);
+        expect(matchesCondition(user,{path:'address.zip.code',op:'isNull'})).toBe(true);
+    });
+
+    it('should compare booleans as numbers',()=>{
+        expect(matchesCondition(user,{path:'admin',op:'=',value:true})).toBe(true);
+        expect(matchesCondition(user,{path:'admin',op:'=',value:1})).toBe(true);
+        expect(matchesCondition(user,{path:'admin',op:'in',value:[false]})).toBe(false);
+    });
+
+    it('should never match null or missing values except with isNull',()=>{
+        expect(matchesCondition(user,{path:'deleted',op:'isNull'})).toBe(true);
+        expect(matchesCondition(user,{path:'missing',op:'isNull'})).toBe(true);
+        expect(matchesCondition(user,{path:'name',op:'notNull'})).toBe(true);
+        expect(matchesCondition(user,{path:'missing',op:'!=',value:1})).toBe(false);
+        expect(matchesCondition(user,{path:'missing',op:'notIn',value:[1]})).toBe(false);
+        expect(matchesCondition(user,{path:'name',op:'=',value:null})).toBe(false);
+        // objects and arrays are not comparable values
+        expect(matchesCondition(user,{path:'address',op:'isNull'})).toBe(true);
+    });
+
+    it('should match in and notIn lists',()=>{
+        expect(matchesCondition(user,{path:'name',op:'in',value:['Bob','Ada']})).toBe(true);
+        expect(matchesCondition(user,{path:'name',op:'notIn',value:['Bob','Ada']})).toBe(false);
+        expect(matchesCondition(user,{path:'name',op:'notIn',value:[]})).toBe(true);
+    });
+
+    it('should match like patterns without case',()=>{
+        expect(matchesCondition(user,{path:'name',op:'like',value:'a%'})).toBe(true);
+        expect(matchesCondition(user,{path:'name',op:'like',value:'_d_'})).toBe(true);
+        expect(matchesCondition(user,{path:'name',op:'like',value:'a.a'})).toBe(false);
+        expect(matchesCondition(user,{path:'age',op:'like',value:'3%'})).toBe(true);
+    });
+
+    it('should reject invalid paths',()=>{
+        expect(()=>matchesCondition(user,{path:'__proto__.x y',op:'isNull'})).toThrow('Invalid query path');
+    });
+});
+
+describe('compareValues',()=>{
+
+    it('should sort null before numbers before strings',()=>{
+        expect(['b',2,null,'a',1].sort(compareValues)).toEqual([null,1,2,'a','b']);
+        expect(compareValues(undefined,null)).toBe(0);
+        expect(compareValues(true,1)).toBe(0);
+    });
+});
+
+describe('queryRecords',()=>{
+
+    const records=[
+        toRecord({Id:1,name:'c',age:30}),
+        toRecord({Id:2,name:'a',age:20},now-1),
+        toRecord({Id:3,name:'b',age:40},now+1),
+        toRecord({Id:4,name:'d'})
+    ];
+
+    const ids=(r:DbRecord[])=>r.map(r=>r.objId);
+
+    it('should exclude expired records',()=>{
+        expect(ids(queryRecords(records,{},now))).toEqual(['1','3','4']);
+        expect(ids(queryRecords(records,{includeExpired:true},now))).toEqual(['1','2','3','4']);
+    });
+
+    it('should filter and order records',()=>{
+        expect(ids(queryRecords(records,{where:[{path:'age',op:'>',value:25}],orderBy:[{path:'age',desc:true}]},now)))
+            .toEqual(['3','1']);
+        expect(ids(queryRecords(records,{includeExpired:true,orderBy:[{path:'age'}]},now)))
+            .toEqual(['4','2','1','3']);
+    });
+
+    it('should limit and offset records',()=>{
+        expect(ids(queryRecords(records,{includeExpired:true,orderBy:[{path:'name'}],limit:2,offset:1},now)))
+            .toEqual(['3','1']);
+        expect(ids(queryRecords(records,{includeExpired:true,offset:3},now))).toEqual(['4']);
+    });
+});
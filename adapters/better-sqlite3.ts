@@ -0,0 +1,114 @@
+import Database from 'better-sqlite3';
+import { DbConfig } from "../db-types";
+import { Query, ResultSet, ResultSetError, SQLError, SQLiteCallback, SQLResultSet, SQLStatementCallback, SQLStatementErrorCallback, SQLTransaction, SQLTransactionCallback, SQLTransactionErrorCallback, SQLVoidCallback, WebSQLDatabase } from "../sqlite-types";
+
+interface QueuedStatement
+{
+    sql:string;
+    args?:any[];
+    callback?:SQLStatementCallback;
+    errorCallback?:SQLStatementErrorCallback;
+}
+
+/**
+ * better-sqlite3 only binds numbers, strings, bigints, buffers and null
+ */
+const toArgs=(args:unknown[]|undefined):any[]=>(args||[]).map(a=>
+    a===undefined?null:typeof a === 'boolean'?(a?1:0):a);
+
+const toSqlError=(ex:any):SQLError=>({
+    code:String(ex?.code||'').startsWith('SQLITE_CONSTRAINT')?6:1,
+    message:ex?.message||String(ex)
+} as SQLError);
+
+/**
+ * Runs a statement and returns its rows and changes
+ */
+const run=(db:Database.Database,sql:string,args:unknown[]|undefined):ResultSet=>{
+    const statement=db.prepare(sql);
+    if(statement.reader){
+        return {rowsAffected:0,rows:statement.all(...toArgs(args)) as ResultSet['rows']};
+    }
+    const info=statement.run(...toArgs(args));
+    return {insertId:Number(info.lastInsertRowid),rowsAffected:info.changes,rows:[]};
+}
+
+const toSqlResultSet=(r:ResultSet):SQLResultSet=>({
+    insertId:r.insertId||0,
+    rowsAffected:r.rowsAffected,
+    rows:{
+        length:r.rows.length,
+        item:(index:number)=>r.rows[index]
+    }
+});
+
+/**
+ * Opens a SQLite database using better-sqlite3 for use in Node. config.databaseName is used as
+ * the database file path, use :memory: for a temporary database. Transactions run
+ * asynchronously to match the behavior of native adapters.
+ */
+export default function openDatabaseBetterSqlite3(config:Required<DbConfig>):WebSQLDatabase
+{
+    const db=new Database(config.databaseName);
+
+    const runTransaction=(
+        callback:SQLTransactionCallback,
+        errorCallback?:SQLTransactionErrorCallback,
+        successCallback?:SQLVoidCallback)=>
+    {
+        setTimeout(()=>{
+            const queue:QueuedStatement[]=[];
+            const tx:SQLTransaction={
+                executeSql:(sql,args,callback,errorCallback)=>{
+                    queue.push({sql,args,callback,errorCallback});
+                }
+            }
+
+            db.exec('BEGIN');
+            try{
+                callback(tx);
+                let statement:QueuedStatement|undefined;
+                while((statement=queue.shift())){
+                    let result:ResultSet;
+                    try{
+                        result=run(db,statement.sql,statement.args);
+                    }catch(ex){
+                        // as with WebSQL the transaction continues only if the error callback returns false
+                        if(statement.errorCallback?.(tx,toSqlError(ex))===false){
+                            continue;
+                        }
+                        throw ex;
+                    }
+                    statement.callback?.(tx,toSqlResultSet(result));
+                }
+                db.exec('COMMIT');
+            }catch(ex){
+                if(db.inTransaction){
+                    db.exec('ROLLBACK');
+                }
+                errorCallback?.(toSqlError(ex));
+                return;
+            }
+            successCallback?.();
+        },0);
+    }
+
+    return {
+        version:'',
+        transaction:runTransaction,
+        readTransaction:runTransaction,
+        exec:(queries:Query[],_readOnly:boolean,callback:SQLiteCallback)=>{
+            setTimeout(()=>{
+                const results:(ResultSetError|ResultSet)[]=[];
+                for(const query of queries){
+                    try{
+                        results.push(run(db,query.sql,query.args));
+                    }catch(ex){
+                        results.push({error:ex as Error});
+                    }
+                }
+                callback(null,results);
+            },0);
+        }
+    }
+}
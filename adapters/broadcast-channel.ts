@@ -0,0 +1,36 @@
+import { DbBroadcastMessage, IBroadcastChannel } from "../db-types";
+
+/**
+ * Relays object events between browser tabs and workers using the BroadcastChannel API. Use the
+ * same name in every context that shares the database, for example config.databaseName.
+ * @example
+ * client.setBroadcastChannel(new WebBroadcastChannel('client-db.db'));
+ */
+export default class WebBroadcastChannel implements IBroadcastChannel
+{
+
+    private readonly channel:BroadcastChannel;
+
+    public constructor(name:string)
+    {
+        this.channel=new BroadcastChannel(name);
+    }
+
+    public postMessage(message:DbBroadcastMessage)
+    {
+        this.channel.postMessage(message);
+    }
+
+    public listen(onMessage:(message:DbBroadcastMessage)=>void)
+    {
+        this.channel.onmessage=(e:MessageEvent<DbBroadcastMessage>)=>{
+            onMessage(e.data);
+        }
+    }
+
+    public close()
+    {
+        this.channel.onmessage=null;
+        this.channel.close();
+    }
+}
@@ -0,0 +1,403 @@
+import { DbConfig, DbExpiredRecordKey, DbQuery, DbRecord, DbRecordKey, DbRecordSize, DbStorageEngine, DbStorageStats, PendingMutation } from "../db-types";
+import { matchesCondition, queryRecords } from "../db-query";
+
+const objsStore='objs';
+const settingsStore='settings';
+const outboxStore='outbox';
+
+/**
+ * Version of the IndexedDB database. Increment when adding a new upgrade step to
+ * upgradeDatabase.
+ */
+const dbVersion=2;
+
+/**
+ * Record stored in the objs store
+ */
+interface IndexedDbRecord extends DbRecord
+{
+    /**
+     * Order in which the record was first inserted. Records are returned in this order when a
+     * query has no orderBy, matching the rowid order of SQLite. Records stored before version 2
+     * have no seq and are returned first.
+     */
+    seq?:number;
+}
+
+/**
+ * Creates and upgrades object stores. Called by IndexedDB when the database is created or the
+ * stored version is lower than dbVersion.
+ */
+const upgradeDatabase=(db:IDBDatabase,tx:IDBTransaction,oldVersion:number)=>{
+    if(oldVersion<1){
+        const objs=db.createObjectStore(objsStore,{keyPath:['collection','objId']});
+        objs.createIndex('collection','collection');
+        objs.createIndex('ref',['refCollection','objId']);
+        objs.createIndex('expires','expires');
+        objs.createIndex('updated','updated');
+        db.createObjectStore(settingsStore,{keyPath:'name'});
+        db.createObjectStore(outboxStore,{keyPath:'id',autoIncrement:true});
+    }
+    if(oldVersion<2){
+        tx.objectStore(objsStore).createIndex('seq','seq');
+    }
+}
+
+const requestAsync=<T>(request:IDBRequest<T>)=>new Promise<T>((resolve,reject)=>{
+    request.onsuccess=()=>resolve(request.result);
+    request.onerror=()=>reject(request.error);
+});
+
+const completeAsync=(tx:IDBTransaction)=>new Promise<void>((resolve,reject)=>{
+    tx.oncomplete=()=>resolve();
+    tx.onerror=()=>reject(tx.error);
+    tx.onabort=()=>reject(tx.error||new Error('IndexedDB transaction aborted'));
+});
+
+/**
+ * Calls callback for each value of a cursor. Iteration stops when callback returns false. If
+ * callback throws the transaction is aborted and the error is returned.
+ */
+const iterateAsync=(
+    request:IDBRequest<IDBCursorWithValue|null>,
+    callback:(cursor:IDBCursorWithValue)=>boolean|void
+)=>new Promise<void>((resolve,reject)=>{
+    request.onsuccess=()=>{
+        const cursor=request.result;
+        try{
+            if(!cursor || callback(cursor)===false){
+                resolve();
+                return;
+            }
+        }catch(ex){
+            request.transaction?.abort();
+            reject(ex);
+            return;
+        }
+        cursor.continue();
+    };
+    request.onerror=()=>reject(request.error);
+});
+
+/**
+ * Stores records in IndexedDB. Used to run ClientDb in web browsers where WebSQL is not
+ * available. config.jsonIndexes is ignored since objects are stored as json.
+ * @example
+ * const client=new ClientDb(httpClient,null,new IndexedDbStorageEngine());
+ */
+export default class IndexedDbStorageEngine implements DbStorageEngine
+{
+
+    private readonly factory:IDBFactory|null;
+
+    private __db:IDBDatabase|null=null;
+    private get db():IDBDatabase{
+        if(!this.__db){
+            throw new Error('IndexedDbStorageEngine not initialized')
+        }
+        return this.__db;
+    }
+
+    /**
+     * Last seq given to an inserted record
+     */
+    private seq=0;
+
+    /**
+     * @param factory Factory used to open the database. Defaults to the global indexedDB
+     */
+    public constructor(factory?:IDBFactory)
+    {
+        this.factory=factory||null;
+    }
+
+    public async initAsync(config:Required<DbConfig>)
+    {
+        const request=(this.factory||indexedDB).open(config.databaseName,dbVersion);
+        request.onupgradeneeded=(e)=>{
+            upgradeDatabase(request.result,request.transaction as IDBTransaction,e.oldVersion);
+        }
+        request.onblocked=()=>{
+            console.warn('ClientDb IndexedDB upgrade blocked by an open connection');
+        }
+        this.__db=await requestAsync(request);
+
+        const last=await this.readAsync(objsStore,store=>store.index('seq').openCursor(null,'prev'));
+        this.seq=(last?.value as IndexedDbRecord|undefined)?.seq||0;
+    }
+
+    private readAsync<T>(storeName:string,read:(store:IDBObjectStore)=>IDBRequest<T>):Promise<T>
+    {
+        return requestAsync(read(this.db.transaction(storeName,'readonly').objectStore(storeName)));
+    }
+
+    /**
+     * Runs write inside of a read-write transaction and waits for the transaction to complete.
+     * A promise returned by write is awaited along with the transaction.
+     */
+    private async writeAsync(storeNames:string[],write:(tx:IDBTransaction)=>Promise<void>|void):Promise<void>
+    {
+        const tx=this.db.transaction(storeNames,'readwrite');
+        const complete=completeAsync(tx);
+        await Promise.all([complete,write(tx)]);
+    }
+
+    public async getSettingAsync(name:string):Promise<string|null>
+    {
+        if(!name){
+            return null;
+        }
+        const r=await this.readAsync(settingsStore,store=>store.get(name));
+        return r?.value||null;
+    }
+
+    public async setSettingAsync(name:string,value:string):Promise<void>
+    {
+        if(!name){
+            return;
+        }
+        await this.writeAsync([settingsStore],tx=>{
+            tx.objectStore(settingsStore).put({name,value});
+        });
+    }
+
+    public async getRecordAsync(collection:string,objId:string):Promise<DbRecord|null>
+    {
+        return (await this.readAsync(objsStore,store=>store.get([collection,objId])))||null;
+    }
+
+    public async getRecordsAsync(collection:string,objIds:string[]):Promise<DbRecord[]>
+    {
+        if(!objIds.length){
+            return [];
+        }
+        const store=this.db.transaction(objsStore,'readonly').objectStore(objsStore);
+        const records=await Promise.all(objIds.map(objId=>requestAsync<DbRecord|undefined>(store.get([collection,objId]))));
+        return records.filter(r=>r) as DbRecord[];
+    }
+
+    /**
+     * Returns the records of a collection in insertion order
+     */
+    private async getCollectionAsync(collection:string):Promise<DbRecord[]>
+    {
+        const records:IndexedDbRecord[]=await this.readAsync(objsStore,store=>
+            store.index('collection').getAll(IDBKeyRange.only(collection)));
+        return records.sort((a,b)=>(a.seq||0)-(b.seq||0));
+    }
+
+    public async findRecordsAsync(collection:string,path:string,value:any,excludeIds:string[]):Promise<DbRecord[]>
+    {
+        const records=await this.getCollectionAsync(collection);
+        return records.filter(r=>
+            !excludeIds.includes(r.objId) &&
+            matchesCondition(r.obj?JSON.parse(r.obj):null,{path,op:'=',value}));
+    }
+
+    public async queryRecordsAsync(collection:string,query:DbQuery,now:number):Promise<DbRecord[]>
+    {
+        return queryRecords(await this.getCollectionAsync(collection),query,now);
+    }
+
+    public async putRecordsAsync(records:DbRecord[]):Promise<void>
+    {
+        if(!records.length){
+            return;
+        }
+        await this.writeAsync([objsStore],tx=>{
+            const store=tx.objectStore(objsStore);
+            for(const record of records){
+                const objId=String(record.objId);
+                const request=store.get([record.collection,objId]);
+                request.onsuccess=()=>{
+                    const existing:IndexedDbRecord|undefined=request.result;
+                    store.put({
+                        ...record,
+                        objId,
+                        // matches the SQLite upsert which keeps the refCollection and rowid of existing records
+                        refCollection:existing?existing.refCollection:(record.refCollection||''),
+                        seq:existing?existing.seq:++this.seq
+                    });
+                }
+            }
+        });
+    }
+
+    public async extendRecordsAsync(collection:string,objIds:string[],expires:number,updated:number):Promise<void>
+    {
+        if(!objIds.length){
+            return;
+        }
+        await this.writeAsync([objsStore],tx=>{
+            const store=tx.objectStore(objsStore);
+            for(const objId of objIds){
+                const request=store.get([collection,objId]);
+                request.onsuccess=()=>{
+                    if(request.result){
+                        store.put({...request.result,expires,updated});
+                    }
+                }
+            }
+        });
+    }
+
+    public async deleteRecordAsync(collection:string,objId:string,includeRefs:boolean):Promise<void>
+    {
+        await this.writeAsync([objsStore],tx=>{
+            const store=tx.objectStore(objsStore);
+            store.delete([collection,objId]);
+            if(includeRefs){
+                const request=store.index('ref').getAllKeys(IDBKeyRange.only([collection,objId]));
+                request.onsuccess=()=>{
+                    for(const key of request.result){
+                        store.delete(key);
+                    }
+                }
+            }
+        });
+    }
+
+    public async deleteRecordsAsync(keys:DbRecordKey[]):Promise<void>
+    {
+        if(!keys.length){
+            return;
+        }
+        await this.writeAsync([objsStore],tx=>{
+            const store=tx.objectStore(objsStore);
+            for(const key of keys){
+                store.delete([key.collection,String(key.objId)]);
+            }
+        });
+    }
+
+    public async deleteCollectionAsync(collection:string):Promise<void>
+    {
+        await this.writeAsync([objsStore],tx=>{
+            const store=tx.objectStore(objsStore);
+            const deleteKeys=(request:IDBRequest<IDBValidKey[]>)=>{
+                request.onsuccess=()=>{
+                    for(const key of request.result){
+                        store.delete(key);
+                    }
+                }
+            }
+            deleteKeys(store.index('collection').getAllKeys(IDBKeyRange.only(collection)));
+            // arrays sort after strings so [collection,[]] is greater than all [collection,objId] keys
+            deleteKeys(store.index('ref').getAllKeys(IDBKeyRange.bound([collection],[collection,[]])));
+        });
+    }
+
+    public async clearRecordsAsync():Promise<void>
+    {
+        await this.writeAsync([objsStore],tx=>{
+            tx.objectStore(objsStore).clear();
+        });
+    }
+
+    public async migrateCollectionAsync(collection:string,migrate:(obj:any)=>any,settingName:string,settingValue:string):Promise<void>
+    {
+        await this.writeAsync([objsStore,settingsStore],tx=>{
+            tx.objectStore(settingsStore).put({name:settingName,value:settingValue});
+            const request=tx.objectStore(objsStore).index('collection').openCursor(IDBKeyRange.only(collection));
+            return iterateAsync(request,cursor=>{
+                const record=cursor.value as DbRecord;
+                const obj=migrate(record.obj?JSON.parse(record.obj):null);
+                if(obj===null || obj===undefined){
+                    cursor.delete();
+                }else{
+                    cursor.update({...record,obj:JSON.stringify(obj)});
+                }
+            });
+        });
+    }
+
+    public async getExpiredKeysAsync(before:number):Promise<DbExpiredRecordKey[]>
+    {
+        const records:DbRecord[]=await this.readAsync(objsStore,store=>
+            store.index('expires').getAll(IDBKeyRange.bound(0,before,true,true)));
+        return records
+            .filter(r=>!r.etag && !r.lastModified)
+            .map(r=>({collection:r.collection,objId:r.objId,refCollection:r.refCollection||null,obj:r.obj}));
+    }
+
+    public async getRefRecordsAsync():Promise<DbRecord[]>
+    {
+        // records without a refCollection store an empty string which sorts before '\0'
+        return await this.readAsync(objsStore,store=>
+            store.index('ref').getAll(IDBKeyRange.lowerBound(['\0'])));
+    }
+
+    public async countRecordsAsync(collection:string,objIds:string[]):Promise<number>
+    {
+        if(!objIds.length){
+            return 0;
+        }
+        const store=this.db.transaction(objsStore,'readonly').objectStore(objsStore);
+        const counts=await Promise.all(objIds.map(objId=>requestAsync(store.count([collection,objId]))));
+        return counts.reduce((sum,c)=>sum+c,0);
+    }
+
+    public async getStatsAsync():Promise<DbStorageStats>
+    {
+        const stats:DbStorageStats={count:0,size:0};
+        const store=this.db.transaction(objsStore,'readonly').objectStore(objsStore);
+        await iterateAsync(store.openCursor(),cursor=>{
+            stats.count++;
+            stats.size+=(cursor.value as DbRecord).obj?.length||0;
+        });
+        return stats;
+    }
+
+    public async getLeastRecentlyUpdatedAsync(limit:number,offset:number):Promise<DbRecordSize[]>
+    {
+        const rows:DbRecordSize[]=[];
+        let index=0;
+        const store=this.db.transaction(objsStore,'readonly').objectStore(objsStore);
+        await iterateAsync(store.index('updated').openCursor(),cursor=>{
+            if(index++<offset){
+                return;
+            }
+            const record=cursor.value as DbRecord;
+            rows.push({collection:record.collection,objId:record.objId,size:record.obj?.length||0});
+            return rows.length<limit;
+        });
+        return rows;
+    }
+
+    public async vacuumAsync():Promise<void>
+    {
+        // IndexedDB reclaims space automatically
+    }
+
+    public async addMutationAsync(mutation:PendingMutation):Promise<number>
+    {
+        const {id,...record}=mutation;
+        let key:IDBValidKey=0;
+        await this.writeAsync([outboxStore],tx=>{
+            const request=tx.objectStore(outboxStore).add(record);
+            request.onsuccess=()=>{
+                key=request.result;
+            }
+        });
+        return key as number;
+    }
+
+    public async getMutationsAsync(limit?:number):Promise<PendingMutation[]>
+    {
+        return await this.readAsync(outboxStore,store=>store.getAll(undefined,limit));
+    }
+
+    public async updateMutationAsync(mutation:PendingMutation):Promise<void>
+    {
+        await this.writeAsync([outboxStore],tx=>{
+            tx.objectStore(outboxStore).put(mutation);
+        });
+    }
+
+    public async deleteMutationAsync(id:number):Promise<void>
+    {
+        await this.writeAsync([outboxStore],tx=>{
+            tx.objectStore(outboxStore).delete(id);
+        });
+    }
+}
@@ -0,0 +1,260 @@
+import { DbConfig, DbExpiredRecordKey, DbQuery, DbRecord, DbRecordKey, DbRecordSize, DbStorageEngine, DbStorageStats, PendingMutation } from "../db-types";
+import { matchesCondition, queryRecords } from "../db-query";
+
+const toKey=(collection:string,objId:string)=>collection+':'+objId;
+
+const parseObj=(record:DbRecord)=>record.obj?JSON.parse(record.obj):null;
+
+/**
+ * Copies mutation data the same way it is serialized by the SQLite engine so changes made by the
+ * caller do not affect the outbox
+ */
+const cloneData=(data:any)=>(data===null || data===undefined)?null:JSON.parse(JSON.stringify(data));
+
+/**
+ * Stores records in memory. Nothing is persisted. Useful for tests and server-side rendering
+ * where native SQLite modules are not available.
+ * @example
+ * const client=new ClientDb(httpClient,null,new MemoryStorageEngine());
+ */
+export default class MemoryStorageEngine implements DbStorageEngine
+{
+
+    /**
+     * Records in insertion order
+     */
+    private readonly records=new Map<string,DbRecord>();
+
+    private readonly settings=new Map<string,string>();
+
+    private outbox:PendingMutation[]=[];
+
+    private nextMutationId=1;
+
+    public async initAsync(_config:Required<DbConfig>)
+    {
+        // nothing to open
+    }
+
+    public async getSettingAsync(name:string):Promise<string|null>
+    {
+        return this.settings.get(name)||null;
+    }
+
+    public async setSettingAsync(name:string,value:string):Promise<void>
+    {
+        if(!name){
+            return;
+        }
+        this.settings.set(name,value);
+    }
+
+    public async getRecordAsync(collection:string,objId:string):Promise<DbRecord|null>
+    {
+        const record=this.records.get(toKey(collection,objId));
+        return record?{...record}:null;
+    }
+
+    public async getRecordsAsync(collection:string,objIds:string[]):Promise<DbRecord[]>
+    {
+        const records:DbRecord[]=[];
+        for(const objId of objIds){
+            const record=this.records.get(toKey(collection,objId));
+            if(record){
+                records.push({...record});
+            }
+        }
+        return records;
+    }
+
+    private getCollection(collection:string):DbRecord[]
+    {
+        const records:DbRecord[]=[];
+        for(const record of this.records.values()){
+            if(record.collection===collection){
+                records.push({...record});
+            }
+        }
+        return records;
+    }
+
+    public async findRecordsAsync(collection:string,path:string,value:any,excludeIds:string[]):Promise<DbRecord[]>
+    {
+        return this.getCollection(collection).filter(r=>
+            !excludeIds.includes(r.objId) &&
+            matchesCondition(parseObj(r),{path,op:'=',value}));
+    }
+
+    public async queryRecordsAsync(collection:string,query:DbQuery,now:number):Promise<DbRecord[]>
+    {
+        return queryRecords(this.getCollection(collection),query,now);
+    }
+
+    public async putRecordsAsync(records:DbRecord[]):Promise<void>
+    {
+        for(const record of records){
+            const objId=String(record.objId);
+            const key=toKey(record.collection,objId);
+            const existing=this.records.get(key);
+            this.records.set(key,{
+                ...record,
+                objId,
+                // matches the SQLite upsert which keeps the refCollection of existing records
+                refCollection:existing?existing.refCollection:(record.refCollection||'')
+            });
+        }
+    }
+
+    public async extendRecordsAsync(collection:string,objIds:string[],expires:number,updated:number):Promise<void>
+    {
+        for(const objId of objIds){
+            const key=toKey(collection,objId);
+            const record=this.records.get(key);
+            if(record){
+                this.records.set(key,{...record,expires,updated});
+            }
+        }
+    }
+
+    public async deleteRecordAsync(collection:string,objId:string,includeRefs:boolean):Promise<void>
+    {
+        this.records.delete(toKey(collection,objId));
+        if(includeRefs){
+            for(const [key,record] of this.records){
+                if(record.refCollection===collection && record.objId===objId){
+                    this.records.delete(key);
+                }
+            }
+        }
+    }
+
+    public async deleteRecordsAsync(keys:DbRecordKey[]):Promise<void>
+    {
+        for(const key of keys){
+            this.records.delete(toKey(key.collection,String(key.objId)));
+        }
+    }
+
+    public async deleteCollectionAsync(collection:string):Promise<void>
+    {
+        for(const [key,record] of this.records){
+            if(record.collection===collection || record.refCollection===collection){
+                this.records.delete(key);
+            }
+        }
+    }
+
+    public async clearRecordsAsync():Promise<void>
+    {
+        this.records.clear();
+    }
+
+    public async migrateCollectionAsync(collection:string,migrate:(obj:any)=>any,settingName:string,settingValue:string):Promise<void>
+    {
+        // migrate all objects before changing any so that a failed migration changes nothing
+        const updates:[string,DbRecord|null][]=[];
+        for(const [key,record] of this.records){
+            if(record.collection!==collection){
+                continue;
+            }
+            const obj=migrate(parseObj(record));
+            updates.push([key,(obj===null || obj===undefined)?null:{...record,obj:JSON.stringify(obj)}]);
+        }
+        for(const [key,record] of updates){
+            if(record){
+                this.records.set(key,record);
+            }else{
+                this.records.delete(key);
+            }
+        }
+        this.settings.set(settingName,settingValue);
+    }
+
+    public async getExpiredKeysAsync(before:number):Promise<DbExpiredRecordKey[]>
+    {
+        const keys:DbExpiredRecordKey[]=[];
+        for(const record of this.records.values()){
+            if(record.expires>0 && record.expires<before && !record.etag && !record.lastModified){
+                keys.push({collection:record.collection,objId:record.objId,refCollection:record.refCollection||null,obj:record.obj});
+            }
+        }
+        return keys;
+    }
+
+    public async getRefRecordsAsync():Promise<DbRecord[]>
+    {
+        const records:DbRecord[]=[];
+        for(const record of this.records.values()){
+            if(record.refCollection){
+                records.push({...record});
+            }
+        }
+        return records;
+    }
+
+    public async countRecordsAsync(collection:string,objIds:string[]):Promise<number>
+    {
+        let count=0;
+        for(const objId of objIds){
+            if(this.records.has(toKey(collection,objId))){
+                count++;
+            }
+        }
+        return count;
+    }
+
+    public async getStatsAsync():Promise<DbStorageStats>
+    {
+        let size=0;
+        for(const record of this.records.values()){
+            size+=record.obj?.length||0;
+        }
+        return {count:this.records.size,size};
+    }
+
+    public async getLeastRecentlyUpdatedAsync(limit:number,offset:number):Promise<DbRecordSize[]>
+    {
+        // sort is stable so records with the same timestamp keep their insertion order
+        return [...this.records.values()]
+            .sort((a,b)=>a.updated-b.updated)
+            .slice(offset,offset+limit)
+            .map(r=>({collection:r.collection,objId:r.objId,size:r.obj?.length||0}));
+    }
+
+    public async vacuumAsync():Promise<void>
+    {
+        // nothing to reclaim
+    }
+
+    public async addMutationAsync(mutation:PendingMutation):Promise<number>
+    {
+        const id=this.nextMutationId++;
+        this.outbox.push({...mutation,id,data:cloneData(mutation.data)});
+        return id;
+    }
+
+    public async getMutationsAsync(limit?:number):Promise<PendingMutation[]>
+    {
+        const mutations=limit===undefined?this.outbox:this.outbox.slice(0,limit);
+        return mutations.map(m=>({...m,data:cloneData(m.data)}));
+    }
+
+    public async updateMutationAsync(mutation:PendingMutation):Promise<void>
+    {
+        const index=this.outbox.findIndex(m=>m.id===mutation.id);
+        if(index!==-1){
+            this.outbox[index]={
+                ...this.outbox[index],
+                attempts:mutation.attempts,
+                nextAttempt:mutation.nextAttempt,
+                lastError:mutation.lastError,
+                failed:mutation.failed
+            };
+        }
+    }
+
+    public async deleteMutationAsync(id:number):Promise<void>
+    {
+        this.outbox=this.outbox.filter(m=>m.id!==id);
+    }
+}
@@ -0,0 +1,234 @@
+import { IRealtimeSource, RealtimeMessage } from "../db-types";
+
+export interface EventSourceRealtimeOptions
+{
+    /**
+     * Delay in milliseconds before the first reconnect attempt after the connection is closed.
+     * The delay doubles for each failed attempt.
+     */
+    reconnectDelayMs?:number;
+    maxReconnectDelayMs?:number;
+    /**
+     * If true subscribed collections are reset after reconnecting since messages sent while
+     * disconnected are lost. Resetting a collection deletes its cached records. Defaults to false
+     */
+    resetOnReconnect?:boolean;
+    /**
+     * Creates the event source. Defaults to the global EventSource
+     */
+    createEventSource?:((url:string)=>EventSource)|null;
+}
+
+const defaultOptions:Required<EventSourceRealtimeOptions>={
+    reconnectDelayMs:1000,
+    maxReconnectDelayMs:1000*30,
+    resetOnReconnect:false,
+    createEventSource:null
+}
+
+/**
+ * EventSource.OPEN
+ */
+const sourceOpen=1;
+
+/**
+ * EventSource.CLOSED
+ */
+const sourceClosed=2;
+
+/**
+ * Receives realtime messages using server-sent events. Subscribed collections are sent as a comma
+ * separated collections query parameter and the connection is reopened when subscriptions
+ * change. Each event contains a RealtimeMessage as json.
+ * @example
+ * db.setRealtimeSource(new EventSourceRealtimeSource('https://example.com/realtime'));
+ */
+export default class EventSourceRealtimeSource implements IRealtimeSource
+{
+
+    private readonly url:string;
+
+    private readonly options:Required<EventSourceRealtimeOptions>;
+
+    private readonly collections=new Set<string>();
+
+    private source:EventSource|null=null;
+
+    /**
+     * The previous connection while the connection with changed subscriptions opens. Messages of
+     * both connections are received until then so that none are lost.
+     */
+    private replacedSource:EventSource|null=null;
+
+    private onMessage:((message:RealtimeMessage)=>void)|null=null;
+
+    private reconnectTimer:any=null;
+
+    private reopenTimer:any=null;
+
+    private attempts=0;
+
+    private hasConnected=false;
+
+    public constructor(url:string,options?:EventSourceRealtimeOptions)
+    {
+        this.url=url;
+        this.options={...defaultOptions,...(options||{})};
+    }
+
+    public connect(onMessage:(message:RealtimeMessage)=>void)
+    {
+        this.disconnect();
+        this.onMessage=onMessage;
+        this.hasConnected=false;
+        this.attempts=0;
+        this.open();
+    }
+
+    public disconnect()
+    {
+        this.onMessage=null;
+        if(this.reconnectTimer){
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer=null;
+        }
+        if(this.reopenTimer){
+            clearTimeout(this.reopenTimer);
+            this.reopenTimer=null;
+        }
+        this.close();
+    }
+
+    public subscribe(collection:string)
+    {
+        if(this.collections.has(collection)){
+            return;
+        }
+        this.collections.add(collection);
+        this.scheduleReopen();
+    }
+
+    public unsubscribe(collection:string)
+    {
+        if(!this.collections.delete(collection)){
+            return;
+        }
+        this.scheduleReopen();
+    }
+
+    /**
+     * Reopens the connection with the current subscriptions. Changes made in the same tick are
+     * applied using a single connection.
+     */
+    private scheduleReopen()
+    {
+        if(!this.onMessage || this.reopenTimer){
+            return;
+        }
+        this.reopenTimer=setTimeout(()=>{
+            this.reopenTimer=null;
+            if(!this.onMessage || this.reconnectTimer){
+                // a pending reconnect uses the current subscriptions
+                return;
+            }
+            this.replacedSource?.close();
+            this.replacedSource=this.source;
+            this.source=null;
+            this.open();
+            if(!this.source){
+                this.closeReplaced();
+            }
+        },0);
+    }
+
+    private close()
+    {
+        const source=this.source;
+        this.source=null;
+        source?.close();
+        this.closeReplaced();
+    }
+
+    private closeReplaced()
+    {
+        const source=this.replacedSource;
+        this.replacedSource=null;
+        source?.close();
+    }
+
+    private open()
+    {
+        if(!this.collections.size){
+            return;
+        }
+
+        const url=this.url+(this.url.includes('?')?'&':'?')+
+            'collections='+encodeURIComponent([...this.collections].join(','));
+        const source=this.options.createEventSource?this.options.createEventSource(url):new EventSource(url);
+        this.source=source;
+
+        source.onopen=()=>{
+            if(this.source!==source){
+                return;
+            }
+            // no messages were missed if the replaced connection was open until now
+            const isReconnect=this.hasConnected && this.replacedSource?.readyState!==sourceOpen;
+            this.closeReplaced();
+            this.hasConnected=true;
+            this.attempts=0;
+            if(isReconnect && this.options.resetOnReconnect){
+                for(const collection of this.collections){
+                    this.onMessage?.({type:'resetCollection',collection});
+                }
+            }
+        }
+
+        source.onmessage=(e)=>{
+            if(this.source!==source && this.replacedSource!==source){
+                return;
+            }
+            let message:RealtimeMessage;
+            try{
+                message=JSON.parse(e.data);
+            }catch{
+                console.warn('Invalid realtime message',e.data);
+                return;
+            }
+            this.onMessage?.(message);
+        }
+
+        source.onerror=()=>{
+            // EventSource retries on its own unless the connection was closed
+            if(source.readyState!==sourceClosed){
+                return;
+            }
+            if(this.replacedSource===source){
+                this.replacedSource=null;
+                return;
+            }
+            if(this.source!==source){
+                return;
+            }
+            this.source=null;
+            this.closeReplaced();
+            this.scheduleReconnect();
+        }
+    }
+
+    private scheduleReconnect()
+    {
+        if(!this.onMessage || this.reconnectTimer){
+            return;
+        }
+        this.attempts++;
+        const delay=Math.min(
+            this.options.reconnectDelayMs*Math.pow(2,this.attempts-1),
+            this.options.maxReconnectDelayMs);
+        this.reconnectTimer=setTimeout(()=>{
+            this.reconnectTimer=null;
+            if(this.onMessage){
+                this.open();
+            }
+        },delay);
+    }
+}
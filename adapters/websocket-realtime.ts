@@ -0,0 +1,170 @@
+import { IRealtimeSource, RealtimeMessage } from "../db-types";
+
+export interface WebSocketRealtimeOptions
+{
+    /**
+     * Delay in milliseconds before the first reconnect attempt. The delay doubles for each
+     * failed attempt.
+     */
+    reconnectDelayMs?:number;
+    maxReconnectDelayMs?:number;
+    /**
+     * If true subscribed collections are reset after reconnecting since messages sent while
+     * disconnected are lost. Resetting a collection deletes its cached records. Defaults to false
+     */
+    resetOnReconnect?:boolean;
+    /**
+     * Creates the socket. Defaults to the global WebSocket
+     */
+    createSocket?:((url:string)=>WebSocket)|null;
+}
+
+const defaultOptions:Required<WebSocketRealtimeOptions>={
+    reconnectDelayMs:1000,
+    maxReconnectDelayMs:1000*30,
+    resetOnReconnect:false,
+    createSocket:null
+}
+
+/**
+ * WebSocket.OPEN
+ */
+const socketOpen=1;
+
+/**
+ * Receives realtime messages over a WebSocket. Subscriptions are sent to the server as
+ * {"type":"subscribe","collection":"..."} and {"type":"unsubscribe","collection":"..."} messages.
+ * The server sends RealtimeMessage objects as json.
+ * @example
+ * db.setRealtimeSource(new WebSocketRealtimeSource('wss://example.com/realtime'));
+ */
+export default class WebSocketRealtimeSource implements IRealtimeSource
+{
+
+    private readonly url:string;
+
+    private readonly options:Required<WebSocketRealtimeOptions>;
+
+    private readonly collections=new Set<string>();
+
+    private socket:WebSocket|null=null;
+
+    private onMessage:((message:RealtimeMessage)=>void)|null=null;
+
+    private reconnectTimer:any=null;
+
+    private attempts=0;
+
+    private hasConnected=false;
+
+    public constructor(url:string,options?:WebSocketRealtimeOptions)
+    {
+        this.url=url;
+        this.options={...defaultOptions,...(options||{})};
+    }
+
+    public connect(onMessage:(message:RealtimeMessage)=>void)
+    {
+        this.disconnect();
+        this.onMessage=onMessage;
+        this.hasConnected=false;
+        this.attempts=0;
+        this.open();
+    }
+
+    public disconnect()
+    {
+        this.onMessage=null;
+        if(this.reconnectTimer){
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer=null;
+        }
+        const socket=this.socket;
+        this.socket=null;
+        socket?.close();
+    }
+
+    public subscribe(collection:string)
+    {
+        if(this.collections.has(collection)){
+            return;
+        }
+        this.collections.add(collection);
+        this.send({type:'subscribe',collection});
+    }
+
+    public unsubscribe(collection:string)
+    {
+        if(!this.collections.delete(collection)){
+            return;
+        }
+        this.send({type:'unsubscribe',collection});
+    }
+
+    private open()
+    {
+        const socket=this.options.createSocket?this.options.createSocket(this.url):new WebSocket(this.url);
+        this.socket=socket;
+
+        socket.onopen=()=>{
+            if(this.socket!==socket){
+                return;
+            }
+            const isReconnect=this.hasConnected;
+            this.hasConnected=true;
+            this.attempts=0;
+            for(const collection of this.collections){
+                this.send({type:'subscribe',collection});
+                if(isReconnect && this.options.resetOnReconnect){
+                    this.onMessage?.({type:'resetCollection',collection});
+                }
+            }
+        }
+
+        socket.onmessage=(e)=>{
+            if(this.socket!==socket){
+                return;
+            }
+            let message:RealtimeMessage;
+            try{
+                message=JSON.parse(e.data);
+            }catch{
+                console.warn('Invalid realtime message',e.data);
+                return;
+            }
+            this.onMessage?.(message);
+        }
+
+        socket.onclose=()=>{
+            if(this.socket!==socket){
+                return;
+            }
+            this.socket=null;
+            this.scheduleReconnect();
+        }
+    }
+
+    private scheduleReconnect()
+    {
+        if(!this.onMessage || this.reconnectTimer){
+            return;
+        }
+        this.attempts++;
+        const delay=Math.min(
+            this.options.reconnectDelayMs*Math.pow(2,this.attempts-1),
+            this.options.maxReconnectDelayMs);
+        this.reconnectTimer=setTimeout(()=>{
+            this.reconnectTimer=null;
+            if(this.onMessage){
+                this.open();
+            }
+        },delay);
+    }
+
+    private send(message:any)
+    {
+        if(this.socket?.readyState===socketOpen){
+            this.socket.send(JSON.stringify(message));
+        }
+    }
+}
@@ -1,6 +1,6 @@
-import { useContext, useEffect, useRef, useState } from "react";
+import { Dispatch, MutableRefObject, SetStateAction, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
 import ClientDb, { ClientDbContext } from "./ClientDb";
-import { IdParam, ObjEventType, PauseHook } from "./db-types";
+import { DbHookState, DbPagedListState, DbPageResult, IdParam, ObjEventType, PageEndPointBuilder, PauseHook, PendingMutation } from "./db-types";
 
 export function useClientDb():ClientDb
 {
@@ -11,15 +11,69 @@ export function useClientDb():ClientDb
     return db;
 }
 
+/**
+ * Subscribes to realtime messages of a collection while mounted
+ * @param collection The collection to subscribe to. If null no subscription is made
+ */
+export function useCollectionSubscription(collection:string|null)
+{
+    const db=useClientDb();
+    useEffect(()=>{
+        if(!collection){
+            return;
+        }
+        return db.subscribeCollection(collection);
+    },[collection,db]);
+}
+
+type HookStateValue<T>=Omit<DbHookState<T>,'refresh'>;
+
+const idleState:HookStateValue<any>={data:undefined,status:'idle',error:null,isStale:false};
+
+const loadingState:HookStateValue<any>={data:undefined,status:'loading',error:null,isStale:false};
+
+const toSuccessState=<T>(data:T|null|undefined,isStale:boolean=false):HookStateValue<T>=>({
+    data,
+    status:'success',
+    error:null,
+    isStale
+});
+
+/**
+ * Holds the state of a state hook. The refresh function of the returned state calls the
+ * function assigned to refreshRef by the effect of the hook.
+ */
+function useHookState<T>():[
+    DbHookState<T>,
+    Dispatch<SetStateAction<HookStateValue<T>>>,
+    MutableRefObject<(()=>void)|null>]
+{
+    const [state,setState]=useState<HookStateValue<T>>(idleState);
+    const refreshRef=useRef<(()=>void)|null>(null);
+    const refresh=useCallback(()=>refreshRef.current?.(),[]);
+    const hookState=useMemo(()=>({...state,refresh}),[state,refresh]);
+    return [hookState,setState,refreshRef];
+}
+
 /**
  * Returns an object by id. Undefined is returned while the object is being loaded.
  * Null is returned if the object can not be found by any data providers
+ * @param ttl Optional time to live in minutes of the loaded object
+ */
+export function useObj<T>(collection:string,id:IdParam,endpoint?:string,ttl?:number):T|null|undefined
+{
+    return useObjState<T>(collection,id,endpoint,ttl).data;
+}
+
+/**
+ * Same as useObj but returns the status of the request, errors and a refresh function
  */
-export function useObj<T>(collection:string,id:IdParam,endpoint?:string):T|null|undefined
+export function useObjState<T>(collection:string,id:IdParam,endpoint?:string,ttl?:number):DbHookState<T>
 {
     const db=useClientDb();
+    useCollectionSubscription(collection);
 
-    const [obj,setObj]=useState<T|null|undefined>(undefined);
+    const [state,setState,refreshRef]=useHookState<T>();
     const hasPaused=useRef(false);
 
     useEffect(()=>{
@@ -29,34 +83,49 @@ export function useObj<T>(collection:string,id:IdParam,endpoint?:string):T|null|
         }
         let m=true;
         if(!hasPaused.current){
-            setObj(undefined);
+            setState(loadingState);
         }
-        const get=async ()=>{
-            const obj=await db.getObjAsync<T>(collection,id,endpoint);
-            if(m){
-                setObj(obj);
+        const releaseObj=db.retainObjs(collection,[id]);
+        let request=0;
+        // aborted on cleanup. Shared requests are only aborted once no other caller is waiting
+        const controller=new AbortController();
+        const get=async (noCache?:boolean)=>{
+            const r=++request;
+            setState(s=>({...s,status:'loading'}));
+            try{
+                const obj=await db.getObjAsync<T>(collection,id,endpoint,ttl,controller.signal,noCache);
+                const isStale=await db.isStaleAsync(collection,id);
+                if(m && r===request){
+                    setState(toSuccessState(obj,isStale));
+                }
+            }catch(error){
+                if(m && r===request){
+                    setState(s=>({...s,status:'error',error}));
+                }
             }
         };
         get();
 
+        refreshRef.current=()=>get(true);
+
         const strId=id?.toString();
         const listener=(type:ObjEventType,eCollection:string,eId:string,obj:any)=>{
             if(!m){
                 return;
             }
             if(type==='clearAll'){
-                setObj(undefined);
+                setState(idleState);
             }else if(type==='resetAll'){
                 get();
             }else if(type==='resetCollection' && eCollection===collection){
                 get();
             }else if(eCollection===collection && eId===strId){
                 if(type==='set' || type==='update'){
-                    setObj(obj);
+                    setState(toSuccessState(obj));
                 }else if(type==='reset'){
                     get();
                 }else if(type==='delete'){
-                    setObj(undefined);
+                    setState(idleState);
                 }
             }
         }
@@ -66,11 +135,14 @@ export function useObj<T>(collection:string,id:IdParam,endpoint?:string):T|null|
 
         return ()=>{
             m=false;
+            controller.abort();
+            refreshRef.current=null;
             db.removeListener(listener);
+            releaseObj();
         }
-    },[collection,id,endpoint,db]);
+    },[collection,id,endpoint,ttl,db]);
 
-    return obj;
+    return state;
 }
 
 /**
@@ -81,6 +153,7 @@ export function useObj<T>(collection:string,id:IdParam,endpoint?:string):T|null|
  * @param isCollection
  * @param cacheKey
  * @param cacheId
+ * @param ttl
  * @returns
  */
 export function useMappedObj<T>(
@@ -89,12 +162,30 @@ export function useMappedObj<T>(
     endpoint:string,
     isCollection:boolean,
     cacheKey:string|null=null,
-    cacheId:number|null=null)
+    cacheId:number|null=null,
+    ttl?:number)
     :T|null|undefined
+{
+    return useMappedObjState<T>(enabled,collection,endpoint,isCollection,cacheKey,cacheId,ttl).data;
+}
+
+/**
+ * Same as useMappedObj but returns the status of the request, errors and a refresh function
+ */
+export function useMappedObjState<T>(
+    enabled:boolean,
+    collection:string,
+    endpoint:string,
+    isCollection:boolean,
+    cacheKey:string|null=null,
+    cacheId:number|null=null,
+    ttl?:number)
+    :DbHookState<T>
 {
     const db=useClientDb();
+    useCollectionSubscription(enabled?collection:null);
 
-    const [obj,setObj]=useState<T|null|undefined>(undefined);
+    const [state,setState,refreshRef]=useHookState<T>();
 
     useEffect(()=>{
         if(!enabled){
@@ -102,25 +193,75 @@ export function useMappedObj<T>(
         }
 
         let m=true;
-        setObj(undefined);
-        const get=async ()=>{
-            const obj=await db.getMappedObj<T>(endpoint,isCollection,cacheKey||'MAPPED:'+endpoint,cacheId||-1,collection);
-            if(m){
-                setObj(obj);
+        setState(loadingState);
+        const key=cacheKey||'MAPPED:'+endpoint;
+        const strCacheId=(cacheId||-1).toString();
+        let releaseObjs:(()=>void)|null=null;
+        let request=0;
+        let loading=false;
+        // aborted on cleanup. Shared requests are only aborted once no other caller is waiting
+        const controller=new AbortController();
+        const setObj=(obj:T|null,isStale:boolean)=>{
+            releaseObjs?.();
+            releaseObjs=db.retainObjs(collection,
+                (isCollection?(obj as any as any[])||[]:[obj]).map(o=>db.getPrimaryKey(collection,o)));
+            setState(toSuccessState(obj,isStale));
+        }
+        const get=async (noCache?:boolean)=>{
+            const r=++request;
+            loading=true;
+            setState(s=>({...s,status:'loading'}));
+            try{
+                const obj=await db.getMappedObj<T>(
+                    endpoint,isCollection,key,cacheId||-1,collection,noCache,ttl,controller.signal);
+                const isStale=await db.isStaleAsync(key,cacheId||-1);
+                if(m && r===request){
+                    setObj(obj,isStale);
+                }
+            }catch(error){
+                if(m && r===request){
+                    setState(s=>({...s,status:'error',error}));
+                }
+            }finally{
+                if(r===request){
+                    loading=false;
+                }
+            }
+        };
+        // reads the stored copy without sending a request. Reloading with get could revalidate
+        // a record that is always stale and store it again
+        const getLocal=async ()=>{
+            const r=++request;
+            try{
+                const obj=await db.getLocalMappedObjAsync<T>(isCollection,key,cacheId||-1,collection);
+                const isStale=await db.isStaleAsync(key,cacheId||-1);
+                if(m && r===request && obj){
+                    setObj(obj,isStale);
+                }
+            }catch(error){
+                if(m && r===request){
+                    setState(s=>({...s,status:'error',error}));
+                }
             }
         };
         get();
 
-        const listener=(type:ObjEventType,eCollection:string)=>{
+        refreshRef.current=()=>get(true);
+
+        const listener=(type:ObjEventType,eCollection:string,eId:string)=>{
             if(!m){
                 return;
             }
             if(type==='clearAll'){
-                setObj(undefined);
+                setState(idleState);
             }else if(type==='resetAll'){
                 get();
             }else if(type==='resetCollection' && eCollection===collection){
                 get();
+            }else if(type==='set' && eCollection===key && eId===strCacheId && !loading){
+                // a fresh copy of the mapped object was stored by a background revalidation or
+                // another caller. Copies stored by this hook's own request are already handled by get
+                getLocal();
             }
             // todo - maybe do something more here
         }
@@ -130,11 +271,14 @@ export function useMappedObj<T>(
 
         return ()=>{
             m=false;
+            controller.abort();
+            refreshRef.current=null;
             db.removeListener(listener);
+            releaseObjs?.();
         }
-    },[enabled,endpoint,isCollection,collection,cacheKey,cacheId,db]);
+    },[enabled,endpoint,isCollection,collection,cacheKey,cacheId,ttl,db]);
 
-    return obj;
+    return state;
 }
 
 export function useObjCollectionRef<T,TRef>(
@@ -143,12 +287,30 @@ export function useObjCollectionRef<T,TRef>(
     refCollection:string,
     property:keyof(T)|string,
     foreignKey:keyof(TRef),
-    endpoint?:string)
+    endpoint?:string,
+    ttl?:number)
     :TRef[]|null|undefined
+{
+    return useObjCollectionRefState<T,TRef>(collection,id,refCollection,property,foreignKey,endpoint,ttl).data;
+}
+
+/**
+ * Same as useObjCollectionRef but returns the status of the request, errors and a refresh function
+ */
+export function useObjCollectionRefState<T,TRef>(
+    collection:string,
+    id:IdParam,
+    refCollection:string,
+    property:keyof(T)|string,
+    foreignKey:keyof(TRef),
+    endpoint?:string,
+    ttl?:number)
+    :DbHookState<TRef[]>
 {
     const db=useClientDb();
+    useCollectionSubscription(refCollection);
 
-    const [obj,setObj]=useState<TRef[]|null|undefined>(undefined);
+    const [state,setState,refreshRef]=useHookState<TRef[]>();
     const hasPaused=useRef(false);
 
     useEffect(()=>{
@@ -158,20 +320,37 @@ export function useObjCollectionRef<T,TRef>(
         }
         let m=true;
         if(!hasPaused.current){
-            setObj(undefined);
+            setState(loadingState);
         }
         let objs:TRef[]|null=null;
         let ids:string[]|null=null;
+        let releaseObjs:(()=>void)|null=null;
+        let request=0;
+        // aborted on cleanup. Shared requests are only aborted once no other caller is waiting
+        const controller=new AbortController();
         const get=async (clearCache?:boolean)=>{
-            objs=await db.getObjRefCollection<T,TRef>(
-                collection,id,refCollection,property,foreignKey,clearCache,endpoint);
-            ids=objs?.map(o=>db.getPrimaryKey(refCollection,o))||null;
-            if(m){
-                setObj(objs);
+            const r=++request;
+            setState(s=>({...s,status:'loading'}));
+            try{
+                objs=await db.getObjRefCollection<T,TRef>(
+                    collection,id,refCollection,property,foreignKey,clearCache,endpoint,ttl,controller.signal);
+                ids=objs?.map(o=>db.getPrimaryKey(refCollection,o))||null;
+                const isStale=await db.isObjRefStaleAsync(collection,id,property as string,foreignKey as string);
+                if(m && r===request){
+                    releaseObjs?.();
+                    releaseObjs=db.retainObjs(refCollection,ids||[]);
+                    setState(toSuccessState(objs,isStale));
+                }
+            }catch(error){
+                if(m && r===request){
+                    setState(s=>({...s,status:'error',error}));
+                }
             }
         };
         get();
 
+        refreshRef.current=()=>get(true);
+
         const strId=id?.toString();
         const listener=(type:ObjEventType,eCollection:string,eId:string,obj:any,includeRefs:boolean)=>{
 
@@ -179,14 +358,14 @@ export function useObjCollectionRef<T,TRef>(
                 return;
             }
             if(type==='clearAll'){
-                setObj(undefined);
+                setState(idleState);
             }else if(type==='resetAll'){
                 get();
             }else if(type==='resetCollection' && eCollection===collection){
                 get();
             }else if(eCollection===collection && eId===strId){// (this).{fKey} -> baseObj.Id
                 if(type==='delete'){
-                    setObj(undefined);
+                    setState(idleState);
                 }else if(includeRefs){
                     get();
                 }
@@ -202,11 +381,14 @@ export function useObjCollectionRef<T,TRef>(
 
         return ()=>{
             m=false;
+            controller.abort();
+            refreshRef.current=null;
             db.removeListener(listener);
+            releaseObjs?.();
         }
-    },[collection,id,db,refCollection,property,foreignKey,endpoint]);
+    },[collection,id,db,refCollection,property,foreignKey,endpoint,ttl]);
 
-    return obj;
+    return state;
 }
 
 
@@ -217,12 +399,30 @@ export function useObjSingleRef<T,TRef>(
     refCollection:string,
     property:keyof(T)|null,
     foreignKey:keyof(T),
-    endpoint?:string)
+    endpoint?:string,
+    ttl?:number)
     :TRef|null|undefined
+{
+    return useObjSingleRefState<T,TRef>(collection,id,refCollection,property,foreignKey,endpoint,ttl).data;
+}
+
+/**
+ * Same as useObjSingleRef but returns the status of the request, errors and a refresh function
+ */
+export function useObjSingleRefState<T,TRef>(
+    collection:string,
+    id:IdParam,
+    refCollection:string,
+    property:keyof(T)|null,
+    foreignKey:keyof(T),
+    endpoint?:string,
+    ttl?:number)
+    :DbHookState<TRef>
 {
     const db=useClientDb();
+    useCollectionSubscription(refCollection);
 
-    const [obj,setObj]=useState<TRef|null|undefined>(undefined);
+    const [state,setState,refreshRef]=useHookState<TRef>();
     const hasPaused=useRef(false);
 
     useEffect(()=>{
@@ -232,27 +432,44 @@ export function useObjSingleRef<T,TRef>(
         }
         let m=true;
         if(!hasPaused.current){
-            setObj(undefined);
+            setState(loadingState);
         }
         let rObj:TRef|null=null;
         let pk:string|null=null;
-        const get=async ()=>{
-            rObj=await db.getObjRefSingle<T,TRef>(
-                collection,id,refCollection,property,foreignKey,endpoint);
-            pk=db.getPrimaryKey(refCollection,rObj);
-            if(m){
-                setObj(rObj);
+        let releaseObjs:(()=>void)|null=null;
+        let request=0;
+        // aborted on cleanup. Shared requests are only aborted once no other caller is waiting
+        const controller=new AbortController();
+        const get=async (clearCache?:boolean)=>{
+            const r=++request;
+            setState(s=>({...s,status:'loading'}));
+            try{
+                rObj=await db.getObjRefSingle<T,TRef>(
+                    collection,id,refCollection,property,foreignKey,endpoint,ttl,clearCache,controller.signal);
+                pk=db.getPrimaryKey(refCollection,rObj);
+                const isStale=await db.isObjRefStaleAsync(collection,id,property as string|null,foreignKey as string);
+                if(m && r===request){
+                    releaseObjs?.();
+                    releaseObjs=db.retainObjs(refCollection,[pk]);
+                    setState(toSuccessState(rObj,isStale));
+                }
+            }catch(error){
+                if(m && r===request){
+                    setState(s=>({...s,status:'error',error}));
+                }
             }
         };
         get();
 
+        refreshRef.current=()=>get(true);
+
         const strId=id?.toString();
         const listener=(type:ObjEventType,eCollection:string,eId:string,obj:any)=>{
             if(!m){
                 return;
             }
             if(type==='clearAll'){
-                setObj(undefined);
+                setState(idleState);
             }else if(type==='resetAll'){
                 get();
             }else if(type==='resetCollection' && eCollection===collection){
@@ -262,15 +479,15 @@ export function useObjSingleRef<T,TRef>(
                     // fKey could have changed to do full refresh
                     get();
                 }else if(type==='delete'){
-                    setObj(undefined);
+                    setState(idleState);
                 }
             }else if(eCollection===refCollection && pk===eId){
                 if(type==='set' || type==='update'){
-                    setObj(obj);
+                    setState(toSuccessState(obj));
                 }else if(type==='reset'){
                     get();
                 }else if(type==='delete'){
-                    setObj(undefined);
+                    setState(idleState);
                 }
             }
         }
@@ -280,9 +497,432 @@ export function useObjSingleRef<T,TRef>(
 
         return ()=>{
             m=false;
+            controller.abort();
+            refreshRef.current=null;
+            db.removeListener(listener);
+            releaseObjs?.();
+        }
+    },[collection,id,db,refCollection,property,foreignKey,endpoint,ttl]);
+
+    return state;
+}
+
+
+/**
+ * Returns the mutations waiting in the outbox to be sent to their data source. The returned
+ * list is updated as mutations are queued, sent, retried or fail.
+ */
+export function usePendingMutations():PendingMutation[]
+{
+    return usePendingMutationsState().data||noMutations;
+}
+
+const noMutations:PendingMutation[]=[];
+
+/**
+ * Same as usePendingMutations but returns the status of loading the outbox, errors and a refresh
+ * function
+ */
+export function usePendingMutationsState():DbHookState<PendingMutation[]>
+{
+    const db=useClientDb();
+
+    const [state,setState,refreshRef]=useHookState<PendingMutation[]>();
+
+    useEffect(()=>{
+        let m=true;
+        let request=0;
+        setState(loadingState);
+        const get=async ()=>{
+            const r=++request;
+            try{
+                const list=await db.getPendingMutationsAsync();
+                if(m && r===request){
+                    setState(toSuccessState(list));
+                }
+            }catch(error){
+                if(m && r===request){
+                    setState(s=>({...s,status:'error',error}));
+                }
+            }
+        };
+        get();
+
+        refreshRef.current=get;
+
+        const listener=()=>{
+            if(m){
+                get();
+            }
+        }
+
+        db.addMutationListener(listener);
+
+        return ()=>{
+            m=false;
+            refreshRef.current=null;
+            db.removeMutationListener(listener);
+        }
+    },[db]);
+
+    return state;
+}
+
+/**
+ * Returns all cached objects of a collection that match a predicate. The returned list is updated
+ * as objects of the collection are set, updated and deleted. Undefined is returned while the
+ * objects are being loaded. No requests are made to data sources.
+ * @param predicate Objects returning true are included. If null all objects are included
+ * @param sort Optional compare function used to sort the returned objects
+ * @param depsKey Value the predicate and sort functions depend on. Changing depsKey reloads the list.
+ * Combine multiple values using useMemo or a string key.
+ */
+export function useQuery<T>(
+    collection:string,
+    predicate?:((obj:T)=>boolean)|null,
+    sort?:((a:T,b:T)=>number)|null,
+    depsKey:any=null)
+    :T[]|undefined
+{
+    return useQueryState<T>(collection,predicate,sort,depsKey).data??undefined;
+}
+
+/**
+ * Same as useQuery but returns the status of the query, errors and a refresh function. Queries
+ * fail if the storage engine fails.
+ */
+export function useQueryState<T>(
+    collection:string,
+    predicate?:((obj:T)=>boolean)|null,
+    sort?:((a:T,b:T)=>number)|null,
+    depsKey:any=null)
+    :DbHookState<T[]>
+{
+    const db=useClientDb();
+    useCollectionSubscription(collection);
+
+    const [state,setState,refreshRef]=useHookState<T[]>();
+
+    const predicateRef=useRef(predicate);
+    predicateRef.current=predicate;
+    const sortRef=useRef(sort);
+    sortRef.current=sort;
+
+    useEffect(()=>{
+        let m=true;
+        setState(loadingState);
+        let list:T[]=[];
+        // release functions of retained objects by id
+        const retained=new Map<string,()=>void>();
+        let request=0;
+        // events received while the list is loading. Applied to the loaded list
+        let buffered:{type:ObjEventType,id:string,obj:any}[]|null=[];
+
+        const isMatch=(obj:T)=>predicateRef.current?predicateRef.current(obj):true;
+        const getId=(obj:T)=>db.getPrimaryKey(collection,obj);
+
+        const retain=(id:string)=>{
+            if(!retained.has(id)){
+                retained.set(id,db.retainObjs(collection,[id]));
+            }
+        }
+
+        const release=(id:string)=>{
+            retained.get(id)?.();
+            retained.delete(id);
+        }
+
+        const reset=(next:T[])=>{
+            if(sortRef.current){
+                next.sort(sortRef.current);
+            }
+            const ids=new Set(next.map(getId));
+            for(const id of [...retained.keys()]){
+                if(!ids.has(id)){
+                    release(id);
+                }
+            }
+            for(const id of ids){
+                retain(id);
+            }
+            list=next;
+        }
+
+        /**
+         * Inserts obj at its sorted position
+         */
+        const insert=(next:T[],obj:T)=>{
+            const compare=sortRef.current;
+            if(!compare){
+                next.push(obj);
+                return;
+            }
+            let low=0;
+            let high=next.length;
+            while(low<high){
+                const mid=(low+high)>>1;
+                if(compare(next[mid],obj)<=0){
+                    low=mid+1;
+                }else{
+                    high=mid;
+                }
+            }
+            next.splice(low,0,obj);
+        }
+
+        /**
+         * Applies a change of a single object. Returns true if the list changed
+         */
+        const apply=(type:ObjEventType,id:string,obj:any):boolean=>{
+            const index=list.findIndex(o=>getId(o)===id);
+            const include=(type==='set' || type==='update') && obj && isMatch(obj);
+            if(!include && index===-1){
+                return false;
+            }
+            const next=[...list];
+            if(include && index!==-1 && !sortRef.current){
+                next[index]=obj;
+            }else{
+                if(index!==-1){
+                    // removed, reset, no longer matches or sorted to a new position
+                    next.splice(index,1);
+                }
+                if(include){
+                    insert(next,obj);
+                }
+            }
+            if(include){
+                retain(id);
+            }else{
+                release(id);
+            }
+            list=next;
+            return true;
+        }
+
+        const get=async ()=>{
+            const r=++request;
+            if(!buffered){
+                buffered=[];
+            }
+            setState(s=>({...s,status:'loading'}));
+            try{
+                const all=await db.queryLocalAsync<T>(collection);
+                if(!m || r!==request){
+                    return;
+                }
+                const events=buffered||[];
+                buffered=null;
+                reset(all.filter(isMatch));
+                for(const e of events){
+                    apply(e.type,e.id,e.obj);
+                }
+                setState(toSuccessState(list));
+            }catch(error){
+                if(m && r===request){
+                    // changes are applied to the last loaded list until the next reload
+                    buffered=null;
+                    setState(s=>({...s,status:'error',error}));
+                }
+            }
+        };
+        get();
+
+        refreshRef.current=get;
+
+        const listener=(type:ObjEventType,eCollection:string,eId:string,obj:any)=>{
+            if(!m){
+                return;
+            }
+            if(type==='clearAll'){
+                request++;
+                buffered=null;
+                reset([]);
+                setState(toSuccessState(list));
+            }else if(type==='resetAll'){
+                get();
+            }else if(type==='resetCollection' && eCollection===collection){
+                get();
+            }else if(eCollection===collection){
+                if(buffered){
+                    buffered.push({type,id:eId,obj});
+                }else if(apply(type,eId,obj)){
+                    setState(s=>({...s,data:list}));
+                }
+            }
+        }
+
+        db.addListener(listener);
+
+        return ()=>{
+            m=false;
+            refreshRef.current=null;
+            db.removeListener(listener);
+            for(const id of [...retained.keys()]){
+                release(id);
+            }
+        }
+    },[collection,db,depsKey]);
+
+    return state;
+}
+
+/**
+ * Returns a list loaded one page at a time. Loaded pages are merged into a single list that is
+ * updated as its objects are updated and deleted. Undefined is returned while the first page is
+ * being loaded.
+ * @param endpointBuilder Returns the endpoint of a page. Endpoints can return an array of objects
+ * for offset based paging or a DbPage for cursor based paging.
+ * @param cacheKey Key the pages are cached under. Defaults to the endpoint of the first page
+ * @example
+ * const {data,hasMore,loadMore}=usePagedList<Post>('posts',p=>`posts?offset=${p.offset}&limit=${p.pageSize}`,20);
+ */
+export function usePagedList<T>(
+    collection:string,
+    endpointBuilder:PageEndPointBuilder,
+    pageSize:number,
+    cacheKey:string|null=null,
+    ttl?:number)
+    :DbPagedListState<T>
+{
+    const db=useClientDb();
+    useCollectionSubscription(collection);
+
+    const [state,setState,refreshRef]=useHookState<T[]>();
+    const [hasMore,setHasMore]=useState(false);
+    const loadMoreRef=useRef<(()=>void)|null>(null);
+    const loadMore=useCallback(()=>loadMoreRef.current?.(),[]);
+
+    const endpointBuilderRef=useRef(endpointBuilder);
+    endpointBuilderRef.current=endpointBuilder;
+    const key=cacheKey||endpointBuilder({page:0,offset:0,pageSize,cursor:null});
+
+    useEffect(()=>{
+        let m=true;
+        setState(loadingState);
+        setHasMore(false);
+        let pages:DbPageResult<T>[]=[];
+        let list:T[]=[];
+        let loading=false;
+        let releaseObjs:(()=>void)|null=null;
+        let request=0;
+        const controller=new AbortController();
+
+        const update=(isStale?:boolean)=>{
+            // items can move to the next page between requests of offset based pages
+            const ids=new Set<string>();
+            list=[];
+            for(const page of pages){
+                for(const obj of page.items){
+                    const id=db.getPrimaryKey(collection,obj);
+                    if(!ids.has(id)){
+                        ids.add(id);
+                        list.push(obj);
+                    }
+                }
+            }
+            releaseObjs?.();
+            releaseObjs=db.retainObjs(collection,[...ids]);
+            const next=list;
+            setState(s=>toSuccessState(next,isStale??s.isStale));
+            setHasMore(pages[pages.length-1]?.hasMore??false);
+        }
+
+        const load=async (page:number,noCache?:boolean)=>{
+            const r=++request;
+            loading=true;
+            setState(s=>({...s,status:'loading'}));
+            try{
+                const result=await db.getPageAsync<T>(
+                    collection,key,page,endpointBuilderRef.current,pageSize,
+                    page?pages[page-1]?.cursor??null:null,noCache,ttl,controller.signal);
+                const isStale=await db.isPageStaleAsync(key,page);
+                if(m && r===request){
+                    pages=[...pages.slice(0,page),result];
+                    update(isStale);
+                }
+            }catch(error){
+                if(m && r===request){
+                    setState(s=>({...s,status:'error',error}));
+                }
+            }finally{
+                if(r===request){
+                    loading=false;
+                }
+            }
+        };
+        load(0);
+
+        loadMoreRef.current=()=>{
+            if(loading || !pages.length || !pages[pages.length-1].hasMore){
+                return;
+            }
+            load(pages.length);
+        }
+
+        refreshRef.current=async ()=>{
+            request++;
+            try{
+                await db.clearPagesAsync(key);
+            }catch(error){
+                loading=false;
+                if(m){
+                    setState(s=>({...s,status:'error',error}));
+                }
+                return;
+            }
+            if(m){
+                pages=[];
+                load(0,true);
+            }
+        }
+
+        const listener=(type:ObjEventType,eCollection:string,eId:string,obj:any)=>{
+            if(!m){
+                return;
+            }
+            if(type==='clearAll'){
+                pages=[];
+                releaseObjs?.();
+                releaseObjs=null;
+                setState(idleState);
+                setHasMore(false);
+            }else if(type==='resetAll' || (type==='resetCollection' && eCollection===collection)){
+                pages=[];
+                load(0);
+            }else if(eCollection===collection && (type==='set' || type==='update' || type==='delete')){
+                let changed=false;
+                pages=pages.map(page=>{
+                    const index=page.items.findIndex(o=>db.getPrimaryKey(collection,o)===eId);
+                    if(index===-1){
+                        return page;
+                    }
+                    changed=true;
+                    const items=[...page.items];
+                    if(type==='delete' || !obj){
+                        items.splice(index,1);
+                    }else{
+                        items[index]=obj;
+                    }
+                    return {...page,items};
+                });
+                if(changed){
+                    update();
+                }
+            }
+        }
+
+        db.addListener(listener);
+
+        return ()=>{
+            m=false;
+            controller.abort();
+            refreshRef.current=null;
+            loadMoreRef.current=null;
             db.removeListener(listener);
+            releaseObjs?.();
         }
-    },[collection,id,db,refCollection,property,foreignKey,endpoint]);
+    },[collection,key,pageSize,ttl,db]);
 
-    return obj;
+    return useMemo(()=>({...state,hasMore,loadMore}),[state,hasMore,loadMore]);
 }
@@ -0,0 +1,262 @@
+import { DbQuery, DbQueryCondition, DbQueryOrderBy, DbRecord } from "./db-types";
+
+const pathReg=/^[a-zA-Z_$][\w$]*(\.[a-zA-Z_$][\w$]*|\[\d+\])*$/;
+
+export interface CompiledQuery
+{
+    sql:string;
+    args:any[];
+}
+
+export function isValidQueryPath(path:string):boolean
+{
+    return pathReg.test(path);
+}
+
+/**
+ * Returns a json_extract expression for the given path. Paths are inlined so that the expression
+ * can match expression indexes.
+ */
+export function toJsonExtract(path:string):string
+{
+    if(!isValidQueryPath(path)){
+        throw new Error('Invalid query path - '+path);
+    }
+    return `json_extract("obj",'$.${path}')`;
+}
+
+const toSqlValue=(value:any):any=>typeof value === 'boolean'?(value?1:0):value;
+
+function compileCondition(condition:DbQueryCondition,args:any[]):string
+{
+    const prop=toJsonExtract(condition.path);
+    const value=condition.value;
+
+    switch(condition.op){
+
+        case 'isNull':
+            return `${prop} IS NULL`;
+
+        case 'notNull':
+            return `${prop} IS NOT NULL`;
+
+        case 'in':
+        case 'notIn':{
+            if(!Array.isArray(value)){
+                throw new Error(`${condition.op} condition requires an array value. path:${condition.path}`);
+            }
+            if(!value.length){
+                return condition.op==='in'?'0':`${prop} IS NOT NULL`;
+            }
+            args.push(...value.map(toSqlValue));
+            return `${prop} ${condition.op==='in'?'IN':'NOT IN'} (${value.map(()=>'?').join(',')})`;
+        }
+
+        case 'like':
+            args.push(value);
+            return `${prop} LIKE ?`;
+
+        case '=':
+        case '!=':
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+            if(value===null || value===undefined){
+                return '0';
+            }
+            args.push(toSqlValue(value));
+            return `${prop} ${condition.op==='!='?'<>':condition.op} ?`;
+
+        default:
+            throw new Error('Unknown query operator - '+condition.op);
+    }
+}
+
+/**
+ * Compiles a query into a SELECT statement over the objs table
+ * @param now Current timestamp used to exclude expired records
+ */
+export function compileQuery(collection:string,query:DbQuery,now:number):CompiledQuery
+{
+    const args:any[]=[collection];
+    let sql='SELECT * FROM "objs" WHERE "collection" = ?';
+
+    if(!query.includeExpired){
+        sql+=' AND ( "expires" <= 0 OR "expires" >= ? )';
+        args.push(now);
+    }
+
+    if(query.where){
+        for(const condition of query.where){
+            sql+=' AND '+compileCondition(condition,args);
+        }
+    }
+
+    if(query.orderBy?.length){
+        sql+=' ORDER BY '+query.orderBy.map(o=>toJsonExtract(o.path)+(o.desc?' DESC':' ASC')).join(', ');
+    }else{
+        sql+=' ORDER BY "rowid"';
+    }
+
+    if(query.limit!==undefined || query.offset!==undefined){
+        sql+=' LIMIT ? OFFSET ?';
+        args.push(query.limit===undefined?-1:query.limit,query.offset||0);
+    }
+
+    return {sql,args};
+}
+
+/**
+ * Returns the value of a property path of an object
+ */
+export function getPathValue(obj:any,path:string):any
+{
+    if(!isValidQueryPath(path)){
+        throw new Error('Invalid query path - '+path);
+    }
+    let value=obj;
+    for(const part of path.replace(/\[(\d+)\]/g,'.$1').split('.')){
+        if(value===null || value===undefined){
+            return undefined;
+        }
+        value=value[part];
+    }
+    return value;
+}
+
+const toComparable=(value:any):any=>{
+    if(value===undefined || value===null || typeof value==='object'){
+        return null;
+    }
+    return typeof value === 'boolean'?(value?1:0):value;
+}
+
+/**
+ * Compares values using the same ordering as SQLite. null < numbers < strings
+ */
+export function compareValues(a:any,b:any):number
+{
+    a=toComparable(a);
+    b=toComparable(b);
+    if(a===b){
+        return 0;
+    }
+    if(a===null){
+        return -1;
+    }
+    if(b===null){
+        return 1;
+    }
+    const aNum=typeof a === 'number';
+    const bNum=typeof b === 'number';
+    if(aNum!==bNum){
+        return aNum?-1:1;
+    }
+    return a<b?-1:1;
+}
+
+const likeToRegExp=(pattern:string):RegExp=>new RegExp(
+    '^'+
+    pattern.replace(/[.*+?^${}()|[\]\\]/g,'\\$&').replace(/%/g,'.*').replace(/_/g,'.')+
+    '$','is');
+
+/**
+ * Evaluates a condition against an object using the same rules as the compiled SQL
+ */
+export function matchesCondition(obj:any,condition:DbQueryCondition):boolean
+{
+    const value=toComparable(getPathValue(obj,condition.path));
+    const target=condition.value;
+
+    switch(condition.op){
+
+        case 'isNull':
+            return value===null;
+
+        case 'notNull':
+            return value!==null;
+
+        case 'in':
+        case 'notIn':{
+            if(value===null){
+                return false;
+            }
+            const found=(target as any[]).some(t=>compareValues(value,t)===0);
+            return condition.op==='in'?found:!found;
+        }
+
+        case 'like':
+            return value!==null && likeToRegExp(String(target)).test(String(value));
+
+        default:{
+            if(value===null || target===null || target===undefined){
+                return false;
+            }
+            const c=compareValues(value,target);
+            switch(condition.op){
+                case '=':return c===0;
+                case '!=':return c!==0;
+                case '<':return c<0;
+                case '<=':return c<=0;
+                case '>':return c>0;
+                case '>=':return c>=0;
+                default:
+                    throw new Error('Unknown query operator - '+condition.op);
+            }
+        }
+    }
+}
+
+export function matchesQuery(obj:any,where:DbQueryCondition[]|undefined):boolean
+{
+    if(!where){
+        return true;
+    }
+    for(const condition of where){
+        if(!matchesCondition(obj,condition)){
+            return false;
+        }
+    }
+    return true;
+}
+
+export function compareByOrder(a:any,b:any,orderBy:DbQueryOrderBy[]):number
+{
+    for(const o of orderBy){
+        const c=compareValues(getPathValue(a,o.path),getPathValue(b,o.path));
+        if(c!==0){
+            return o.desc?-c:c;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Evaluates a query against records in memory using the same rules as compileQuery. Records are
+ * returned in the given order unless the query defines orderBy. Used by storage engines that can
+ * not run SQL.
+ * @param now Current timestamp used to exclude expired records
+ */
+export function queryRecords(records:DbRecord[],query:DbQuery,now:number):DbRecord[]
+{
+    const matches:{record:DbRecord,obj:any}[]=[];
+    for(const record of records){
+        if(!query.includeExpired && record.expires>0 && record.expires<now){
+            continue;
+        }
+        const obj=record.obj?JSON.parse(record.obj):null;
+        if(matchesQuery(obj,query.where)){
+            matches.push({record,obj});
+        }
+    }
+
+    const orderBy=query.orderBy;
+    if(orderBy?.length){
+        matches.sort((a,b)=>compareByOrder(a.obj,b.obj,orderBy));
+    }
+
+    const offset=query.offset||0;
+    const end=query.limit===undefined?undefined:offset+query.limit;
+    return matches.slice(offset,end).map(m=>m.record);
+}
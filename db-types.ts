@@ -4,19 +4,48 @@ export const SpecialIdPrefix='::SPECIAL::ID::';
 
 export const PauseHook=SpecialIdPrefix+'PauseHook';
 
+/**
+ * TTL value that stores records that never expire
+ */
+export const NeverExpires=-1;
+
 export type IdParam=number|string|null|undefined;
 
+export interface HttpRequestOptions
+{
+    headers?:{[name:string]:string};
+    /**
+     * Aborts the request. Aborted requests should reject.
+     */
+    signal?:AbortSignal|null;
+}
+
+export interface HttpResponse<T>
+{
+    status:number;
+    data:T|null;
+    headers:{[name:string]:string|null|undefined};
+}
+
 export interface IHttp
 {
-    getAsync:<T>(path:string,data?:any)=>Promise<T>;
+    getAsync:<T>(path:string,data?:any,options?:HttpRequestOptions)=>Promise<T>;
 
-    postAsync:<T>(path:string,data?:any)=>Promise<T>;
+    /**
+     * Optional GET request that returns the status and headers of the response. When defined
+     * ClientDb sends conditional requests using ETag and Last-Modified headers and uses
+     * Cache-Control max-age as the TTL of returned objects. Not modified responses should resolve
+     * with a status of 304, all other error responses should reject.
+     */
+    getResponseAsync?:<T>(path:string,options?:HttpRequestOptions)=>Promise<HttpResponse<T>>;
 
-    putAsync:<T>(path:string,data?:any)=>Promise<T>;
+    postAsync:<T>(path:string,data?:any,options?:HttpRequestOptions)=>Promise<T>;
 
-    patchAsync:<T>(path:string,data?:any)=>Promise<T>;
+    putAsync:<T>(path:string,data?:any,options?:HttpRequestOptions)=>Promise<T>;
 
-    deleteAsync:<T>(path:string,data?:any)=>Promise<T>;
+    patchAsync:<T>(path:string,data?:any,options?:HttpRequestOptions)=>Promise<T>;
+
+    deleteAsync:<T>(path:string,data?:any,options?:HttpRequestOptions)=>Promise<T>;
 }
 
 export type EndPointBuilder=(collection:string,id:IdParam)=>string;
@@ -38,6 +67,192 @@ export interface DbConfig
     endPointMap?:{[collection:string]:string|EndPointBuilder};
     collectionRelations?:DbCollectionRelation[];
     defaultTTLMinutes?:number;
+    /**
+     * TTL in minutes by collection. Use NeverExpires for records that should never expire.
+     */
+    ttlMap?:{[collection:string]:number}|null;
+    /**
+     * Base delay in milliseconds used when retrying failed outbox mutations. The delay doubles
+     * with each failed attempt.
+     */
+    outboxRetryDelayMs?:number;
+    /**
+     * Max delay in milliseconds between outbox retry attempts
+     */
+    outboxMaxRetryDelayMs?:number;
+    /**
+     * Number of attempts made to send an outbox mutation before it fails. Only errors classified
+     * as retry by outboxErrorType are counted. 0 retries until the mutation is sent or fails
+     * with an error classified as fail.
+     */
+    outboxMaxAttempts?:number;
+    /**
+     * Classifies the errors of outbox mutations. Errors are classified as network while the client
+     * is offline. Defaults to classifying all errors as network errors.
+     */
+    outboxErrorType?:((error:any,mutation:PendingMutation)=>DbOutboxErrorType)|null;
+    /**
+     * If true expired objects are returned while a fresh copy is retrieved in the background.
+     * Listeners are notified with a set event once the fresh copy arrives.
+     */
+    staleWhileRevalidate?:boolean;
+    /**
+     * Overrides staleWhileRevalidate by collection. Ref and mapped objects use the collection of
+     * the returned objects.
+     */
+    staleWhileRevalidateMap?:{[collection:string]:boolean}|null;
+    /**
+     * Max number of records kept in memory. Least recently used records are evicted first and
+     * are reloaded from the database when needed. 0 disables the limit.
+     */
+    memCacheMaxEntries?:number;
+    /**
+     * Approximate max size in bytes of the records kept in memory based on the JSON size of the
+     * records. 0 disables the limit.
+     */
+    memCacheMaxBytes?:number;
+    /**
+     * Interval in minutes the background sweeper runs at. The sweeper removes expired records,
+     * orphaned ref records and enforces maxRecords and maxDbBytes. 0 disables the sweeper.
+     * Disabled by default.
+     */
+    sweepIntervalMinutes?:number;
+    /**
+     * Minutes a record is kept after expiring before it is removed by the sweeper. This is also how
+     * long offlineFallback can return expired copies. Expired records with validators and records
+     * used by staleWhileRevalidate are only removed by maxRecords and maxDbBytes.
+     */
+    sweepExpiredGraceMinutes?:number;
+    /**
+     * Max number of records stored in the database. Least recently updated records are removed
+     * first. 0 disables the limit.
+     */
+    maxRecords?:number;
+    /**
+     * Approximate max size in bytes of the objects stored in the database. Least recently updated
+     * records are removed first. 0 disables the limit.
+     */
+    maxDbBytes?:number;
+    /**
+     * Number of records a sweep has to remove before the database is vacuumed
+     */
+    vacuumThreshold?:number;
+    /**
+     * Migrations used to update cached objects after the structure of a collection changes
+     */
+    dataMigrations?:DbDataMigration[];
+    /**
+     * JSON paths to index by collection. initAsync creates an expression index for each path and
+     * drops indexes of paths that are no longer configured. Paths use the same syntax as query
+     * paths, for example userId or address.city. Without the JSON1 extension the values of the
+     * paths are stored in the objValues table instead.
+     */
+    jsonIndexes?:{[collection:string]:string[]}|null;
+    /**
+     * Collections kept up to date by requesting the changes made since the last sync. Objects of
+     * synced collections never expire unless a TTL is defined in ttlMap.
+     */
+    syncCollections?:{[collection:string]:DbCollectionSync}|null;
+    /**
+     * Minutes between syncs of syncCollections. 0 disables periodic syncing.
+     */
+    syncIntervalMinutes?:number;
+    /**
+     * Collections whose objects are loaded in batches. Objects of a batched collection requested
+     * by getObjAsync in the same tick without a custom endpoint are loaded using a single request.
+     */
+    batchCollections?:{[collection:string]:DbCollectionBatch}|null;
+    /**
+     * Retries failed requests made by getObjAsync, getMappedObj, getObjRefCollection and
+     * getObjRefSingle. Null disables retries.
+     */
+    retryPolicy?:DbRetryPolicy|null;
+    /**
+     * If true and loading an object ultimately fails the expired cached copy is returned instead
+     * of throwing. The returned copy stays expired so isStaleAsync reports it as stale. Expired
+     * records are kept for sweepExpiredGraceMinutes.
+     */
+    offlineFallback?:boolean;
+}
+
+export interface DbRetryPolicy
+{
+    /**
+     * Max number of requests made including the first request
+     */
+    maxAttempts:number;
+    /**
+     * Delay in milliseconds before the first retry. The delay doubles with each retry.
+     */
+    retryDelayMs:number;
+    /**
+     * Max delay in milliseconds between retries
+     */
+    maxRetryDelayMs:number;
+    /**
+     * Returns true if a failed request should be retried. By default all errors are retried.
+     * @param attempt The number of the failed attempt starting at 1
+     */
+    isRetryable?:((error:any,attempt:number)=>boolean)|null;
+}
+
+export interface DbCollectionSync
+{
+    /**
+     * Endpoint returning DbChanges. The checkpoint of the last sync is passed as the since query
+     * parameter. Defaults to {crudPrefix}{collection}/changes
+     */
+    endpoint?:string;
+}
+
+export interface DbCollectionBatch
+{
+    /**
+     * Endpoint returning an array of the requested objects. The comma separated ids of the
+     * objects are passed as the ids query parameter. Objects not returned are stored as null.
+     * Defaults to {crudPrefix}{collection}
+     */
+    endpoint?:string;
+    /**
+     * Max number of ids requested at once. Defaults to 100
+     */
+    maxBatchSize?:number;
+}
+
+/**
+ * Changes returned by the endpoint of a synced collection
+ */
+export interface DbChanges<T=any>
+{
+    /**
+     * Objects created or updated since the checkpoint
+     */
+    upserts?:T[];
+    /**
+     * Ids of objects deleted since the checkpoint
+     */
+    deletes?:(string|number)[];
+    /**
+     * Checkpoint passed as the since parameter of the next sync
+     */
+    checkpoint:string|number;
+    /**
+     * If true the next page of changes is requested immediately
+     */
+    hasMore?:boolean;
+}
+
+export interface DbDataMigration
+{
+    collection:string;
+    /**
+     * Migrations of a collection run in order of version. Each version runs once.
+     */
+    version:number;
+    /**
+     * Returns the migrated object. Returning null removes the object from the cache.
+     */
+    migrate:(obj:any)=>any|null;
 }
 
 export interface DbRecord
@@ -47,6 +262,14 @@ export interface DbRecord
     refCollection:string|null;
     objId:string;// index
     obj:string;// json
+    etag:string|null;
+    lastModified:string|null;
+    /**
+     * The response was sent with Cache-Control no-cache. The record is revalidated each time it
+     * is used.
+     */
+    noCache?:boolean;
+    updated:number;// timestamp
 }
 
 export interface DbMemRecord
@@ -56,12 +279,69 @@ export interface DbMemRecord
     refCollection:string|null;
     objId:string;// index
     obj:any;
+    etag?:string|null;
+    lastModified?:string|null;
+    noCache?:boolean;
 }
 
 export interface DbRecordRef
 {
     ids?:string[];
     id?:string;
+    /**
+     * Collection of the referenced objects
+     */
+    collection?:string;
+    /**
+     * Cursor of the next page. Only used by the page records of paged lists
+     */
+    cursor?:string|null;
+    /**
+     * True if a next page exists. Only used by the page records of paged lists
+     */
+    hasMore?:boolean;
+}
+
+export interface DbPageParams
+{
+    /**
+     * Index of the page starting at 0
+     */
+    page:number;
+    /**
+     * Number of objects loaded before the page. page * pageSize
+     */
+    offset:number;
+    pageSize:number;
+    /**
+     * Cursor returned with the previous page. Null for the first page and for offset based lists
+     */
+    cursor:string|null;
+}
+
+/**
+ * Returns the endpoint of a page of a paged list
+ */
+export type PageEndPointBuilder=(params:DbPageParams)=>string;
+
+/**
+ * Response of a cursor based page endpoint. Offset based endpoints can return an array of objects
+ * instead, in which case more pages are loaded until a page has less than pageSize objects.
+ */
+export interface DbPage<T>
+{
+    items:T[];
+    /**
+     * Cursor passed to the endpoint builder of the next page. Null or undefined for the last page
+     */
+    nextCursor?:string|null;
+}
+
+export interface DbPageResult<T>
+{
+    items:T[];
+    cursor:string|null;
+    hasMore:boolean;
 }
 
 export type ObjEventType=
@@ -90,6 +370,171 @@ export type ObjEventType=
 
 export type ObjListener=(type:ObjEventType,collection:string,id:string,obj:any,includeRefs:boolean)=>void;
 
+export type MutationType='create'|'replace'|'patch'|'delete';
+
+export type DbOutboxErrorType=
+    // The data source could not be reached. Retried without counting towards outboxMaxAttempts
+    'network'|
+
+    // Retried and counted towards outboxMaxAttempts
+    'retry'|
+
+    // The mutation can not succeed by retrying. The mutation fails without retrying
+    'fail';
+
+export interface PendingMutation
+{
+    id:number;
+    type:MutationType;
+    collection:string;
+    objId:string|null;
+    data:any;
+    endpoint:string|null;
+    created:number;// timestamp
+    attempts:number;
+    nextAttempt:number;// timestamp
+    lastError:string|null;
+    /**
+     * Failed mutations are kept in the outbox but not sent until retried using retryMutationAsync
+     */
+    failed:boolean;
+}
+
+export interface DbMutationRecord
+{
+    id:number;
+    type:MutationType;
+    collection:string;
+    objId:string|null;
+    data:string|null;// json
+    endpoint:string|null;
+    created:number;
+    attempts:number;
+    nextAttempt:number;
+    lastError:string|null;
+    failed:number;
+}
+
+export type MutationEventType=
+    // A mutation was added to the outbox
+    'queued'|
+
+    // A mutation was sent to its data source and removed from the outbox
+    'sent'|
+
+    // Sending a mutation failed and will be retried
+    'retry'|
+
+    // Sending a mutation failed with an error that can not be retried or failed too many times.
+    // The mutation is kept in the outbox until it is retried or discarded
+    'failed'|
+
+    // A failed mutation was removed from the outbox and the local copy of its object was reset
+    'discarded';
+
+export type MutationListener=(type:MutationEventType,mutation:PendingMutation,error?:any)=>void;
+
+/**
+ * idle - nothing has been requested, for example while paused or after the object was deleted
+ */
+export type DbHookStatus='idle'|'loading'|'success'|'error';
+
+/**
+ * State returned by the state hooks such as useObjState
+ */
+export interface DbHookState<T>
+{
+    /**
+     * The loaded value. Undefined until loaded. The last loaded value is kept while reloading
+     * and after a failed reload.
+     */
+    data:T|null|undefined;
+    status:DbHookStatus;
+    /**
+     * Error of the last failed request. Null once a request succeeds
+     */
+    error:any;
+    /**
+     * True if data was loaded from an expired cache record, for example while it is revalidated
+     */
+    isStale:boolean;
+    /**
+     * Reloads the value from its data source
+     */
+    refresh:()=>void;
+}
+
+/**
+ * State returned by usePagedList. refresh reloads the first page and drops all other pages.
+ */
+export interface DbPagedListState<T> extends DbHookState<T[]>
+{
+    /**
+     * True if more pages can be loaded
+     */
+    hasMore:boolean;
+    /**
+     * Loads the next page. Does nothing while a page is loading or if there are no more pages
+     */
+    loadMore:()=>void;
+}
+
+export interface DbSweepResult
+{
+    /**
+     * Number of expired records removed
+     */
+    expired:number;
+    /**
+     * Number of ref records removed because the objects they reference no longer exist
+     */
+    orphaned:number;
+    /**
+     * Number of records removed to stay within maxRecords and maxDbBytes
+     */
+    evicted:number;
+    vacuumed:boolean;
+}
+
+export type DbQueryOperator='='|'!='|'<'|'<='|'>'|'>='|'in'|'notIn'|'like'|'isNull'|'notNull';
+
+export interface DbQueryCondition
+{
+    /**
+     * Dot separated path of the property to compare. Array items are selected using brackets.
+     * ex - address.city, tags[0]
+     */
+    path:string;
+    op:DbQueryOperator;
+    /**
+     * Value to compare with. in and notIn require an array. like uses SQL LIKE patterns.
+     * Ignored by isNull and notNull.
+     */
+    value?:any;
+}
+
+export interface DbQueryOrderBy
+{
+    path:string;
+    desc?:boolean;
+}
+
+export interface DbQuery
+{
+    /**
+     * Conditions objects must match. All conditions must match. Comparisons other than isNull
+     * never match missing or null values.
+     */
+    where?:DbQueryCondition[];
+    orderBy?:DbQueryOrderBy[];
+    limit?:number;
+    offset?:number;
+    /**
+     * If true expired objects are included
+     */
+    includeExpired?:boolean;
+}
+
 export interface DbSettingRecord
 {
     name:string;
@@ -97,3 +542,227 @@ export interface DbSettingRecord
 }
 
 export type DatabaseAdapter=(config:Required<DbConfig>)=>WebSQLDatabase;
+
+export interface DbRecordKey
+{
+    collection:string;
+    objId:string;
+}
+
+export interface DbExpiredRecordKey extends DbRecordKey
+{
+    refCollection:string|null;
+
+    /**
+     * The stored json of the record. The sweeper reads the collection of the objects referenced by
+     * ref, mapped and page records from it.
+     */
+    obj:string;
+}
+
+export interface DbRecordSize extends DbRecordKey
+{
+    /**
+     * Length of the stored obj json
+     */
+    size:number;
+}
+
+export interface DbStorageStats
+{
+    count:number;
+    /**
+     * Total length of all stored obj json
+     */
+    size:number;
+}
+
+/**
+ * Persists the records, settings and outbox of a ClientDb. ClientDb manages the memory cache,
+ * locking and events. Storage engines only read and write records.
+ */
+export interface DbStorageEngine
+{
+    /**
+     * Opens the storage and creates or updates its schema. Called once by ClientDb.initAsync
+     */
+    initAsync(config:Required<DbConfig>):Promise<void>;
+
+    getSettingAsync(name:string):Promise<string|null>;
+
+    setSettingAsync(name:string,value:string):Promise<void>;
+
+    getRecordAsync(collection:string,objId:string):Promise<DbRecord|null>;
+
+    /**
+     * Returns the stored records of a collection with an objId in objIds. Missing records are skipped.
+     */
+    getRecordsAsync(collection:string,objIds:string[]):Promise<DbRecord[]>;
+
+    /**
+     * Returns the records of a collection whose object has a value at path equal to value.
+     * Records with an objId in excludeIds are skipped.
+     */
+    findRecordsAsync(collection:string,path:string,value:any,excludeIds:string[]):Promise<DbRecord[]>;
+
+    /**
+     * Returns the records of a collection matching a query
+     * @param now Timestamp used to exclude expired records
+     */
+    queryRecordsAsync(collection:string,query:DbQuery,now:number):Promise<DbRecord[]>;
+
+    /**
+     * Inserts records or updates existing records with the same collection and objId
+     */
+    putRecordsAsync(records:DbRecord[]):Promise<void>;
+
+    /**
+     * Updates the expires and updated values of records
+     */
+    extendRecordsAsync(collection:string,objIds:string[],expires:number,updated:number):Promise<void>;
+
+    /**
+     * Deletes a record. If includeRefs is true records with a refCollection equal to collection
+     * and a matching objId are also deleted.
+     */
+    deleteRecordAsync(collection:string,objId:string,includeRefs:boolean):Promise<void>;
+
+    deleteRecordsAsync(keys:DbRecordKey[]):Promise<void>;
+
+    /**
+     * Deletes all records with a collection or refCollection equal to collection
+     */
+    deleteCollectionAsync(collection:string):Promise<void>;
+
+    /**
+     * Deletes all records. Settings and the outbox are kept.
+     */
+    clearRecordsAsync():Promise<void>;
+
+    /**
+     * Replaces the objects of a collection with the value returned by migrate. Records are
+     * deleted when migrate returns null or undefined. The setting is written as part of the
+     * same transaction.
+     */
+    migrateCollectionAsync(collection:string,migrate:(obj:any)=>any,settingName:string,settingValue:string):Promise<void>;
+
+    /**
+     * Returns the keys of records that expire before the given timestamp. Records that never
+     * expire and records with an etag or lastModified validator are not returned.
+     */
+    getExpiredKeysAsync(before:number):Promise<DbExpiredRecordKey[]>;
+
+    /**
+     * Returns all records with a refCollection
+     */
+    getRefRecordsAsync():Promise<DbRecord[]>;
+
+    /**
+     * Returns the number of stored records of a collection with an objId in objIds
+     */
+    countRecordsAsync(collection:string,objIds:string[]):Promise<number>;
+
+    getStatsAsync():Promise<DbStorageStats>;
+
+    /**
+     * Returns records ordered by the updated timestamp, least recently updated first
+     */
+    getLeastRecentlyUpdatedAsync(limit:number,offset:number):Promise<DbRecordSize[]>;
+
+    /**
+     * Reclaims unused space. Engines that do not need vacuuming can do nothing.
+     */
+    vacuumAsync():Promise<void>;
+
+    /**
+     * Adds a mutation to the outbox and returns its id
+     */
+    addMutationAsync(mutation:PendingMutation):Promise<number>;
+
+    /**
+     * Returns mutations in the order they were added
+     */
+    getMutationsAsync(limit?:number):Promise<PendingMutation[]>;
+
+    /**
+     * Updates the attempts, nextAttempt and lastError of a mutation
+     */
+    updateMutationAsync(mutation:PendingMutation):Promise<void>;
+
+    deleteMutationAsync(id:number):Promise<void>;
+}
+
+export type RealtimeMessageType=
+    // An object was created or changed. When obj is included it replaces the cached copy,
+    // otherwise the cached copy is reset and retrieved from its data source
+    'set'|
+
+    // An object was deleted
+    'delete'|
+
+    // All objects of a collection should be retrieved from their data source
+    'resetCollection';
+
+export interface RealtimeMessage
+{
+    type:RealtimeMessageType;
+    collection:string;
+    id?:IdParam;
+    obj?:any;
+}
+
+/**
+ * A source of server pushed changes, for example a WebSocket or SSE connection. Sources are
+ * responsible for reconnecting and resubscribing to collections after a connection is lost.
+ */
+export interface IRealtimeSource
+{
+    /**
+     * Opens the connection. onMessage is called for each message received
+     */
+    connect(onMessage:(message:RealtimeMessage)=>void):void;
+
+    /**
+     * Closes the connection and stops reconnecting
+     */
+    disconnect():void;
+
+    /**
+     * Starts receiving messages for a collection
+     */
+    subscribe(collection:string):void;
+
+    unsubscribe(collection:string):void;
+}
+
+/**
+ * An object event relayed between ClientDb instances sharing a database
+ */
+export interface DbBroadcastMessage
+{
+    /**
+     * Id of the sending ClientDb instance
+     */
+    source:string;
+    type:ObjEventType;
+    collection:string;
+    id:string;
+    obj:any;
+    includeRefs:boolean;
+}
+
+/**
+ * Relays object events between ClientDb instances that share a database, for example browser
+ * tabs or a React Native app and a background task.
+ */
+export interface IBroadcastChannel
+{
+    postMessage(message:DbBroadcastMessage):void;
+
+    /**
+     * Sets the function called for messages posted by other instances
+     */
+    listen(onMessage:(message:DbBroadcastMessage)=>void):void;
+
+    close():void;
+}
@@ -0,0 +1,7 @@
+module.exports={
+    testEnvironment:'node',
+    roots:['<rootDir>/__tests__'],
+    transform:{
+        '^.+\\.ts$':'ts-jest'
+    }
+};